@@ -0,0 +1,102 @@
+// simulate.ts
+// Balance-analysis CLI: runs many headless games per scenario and policy.
+//
+//   npm run simulate -- --runs 2000 --scenario student --policy random,greedy-savings
+//   npm run simulate -- --pack generated.json --json
+//
+// Options:
+//   --scenario <ids>    comma-separated, default: every built-in scenario except custom
+//   --policy <names>    comma-separated, default: every policy
+//   --runs <n>          games per scenario/policy pair (default 1000)
+//   --max-months <n>    month cap before a run counts as unfinished (default 120)
+//   --seed <n>          base seed; run i uses seed + i (default 1)
+//   --pack <file>       EventsResponse JSON ({ events, goal }) to run as the custom scenario
+//   --top <n>           how many events/choices to list per report (default 10)
+//   --json              print raw reports as JSON
+
+import { readFileSync } from "node:fs";
+import { setCustomEvents } from "../src/events";
+import { scenarioList } from "../src/scenarioRegistry";
+import { balanceWarnings, policies, runBatch, type BatchReport, type SimulationOptions } from "../src/simulation";
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const key = argv[i];
+    if (!key.startsWith("--")) continue;
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith("--")) {
+      args[key.slice(2)] = true;
+    } else {
+      args[key.slice(2)] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const list = (v: string | true | undefined, fallback: string[]) =>
+  typeof v === "string" ? v.split(",").map((s) => s.trim()).filter(Boolean) : fallback;
+const int = (v: string | true | undefined, fallback: number) => {
+  const n = typeof v === "string" ? parseInt(v, 10) : NaN;
+  return Number.isFinite(n) ? n : fallback;
+};
+
+const runs = int(args.runs, 1000);
+const top = int(args.top, 10);
+const options: SimulationOptions = { seed: int(args.seed, 1), maxMonths: int(args["max-months"], 120) };
+let scenarios = list(args.scenario, scenarioList().filter((s) => s.id !== "custom").map((s) => s.id));
+const policyNames = list(args.policy, Object.keys(policies));
+
+if (typeof args.pack === "string") {
+  const pack = JSON.parse(readFileSync(args.pack, "utf8"));
+  if (!Array.isArray(pack?.events)) {
+    console.error(`${args.pack}: expected an object with an "events" array`);
+    process.exit(1);
+  }
+  setCustomEvents(pack.events);
+  options.goal = pack.goal;
+  scenarios = ["custom"];
+}
+
+const unknown = policyNames.filter((p) => !policies[p]);
+if (unknown.length) {
+  console.error(`Unknown policy: ${unknown.join(", ")}. Available: ${Object.keys(policies).join(", ")}`);
+  process.exit(1);
+}
+
+const pct = (n: number, total: number) => `${((n / total) * 100).toFixed(1)}%`;
+const sortedEntries = (counts: Record<string, number>) => Object.entries(counts).sort((a, b) => b[1] - a[1]);
+
+function printReport(r: BatchReport) {
+  console.log(`\n=== ${r.scenarioId} / ${r.policy} (${r.runs} runs) ===`);
+  console.log(`win ${pct(r.wins, r.runs)}  lose ${pct(r.losses, r.runs)}  unfinished ${pct(r.timeouts, r.runs)}`);
+  console.log(`median months: to win ${r.medianMonthsToWin ?? "-"}, to lose ${r.medianMonthsToLose ?? "-"}`);
+  for (const [reason, n] of sortedEntries(r.loseReasons)) {
+    console.log(`  lost (${pct(n, r.losses)}): ${reason}`);
+  }
+  const offered = Object.values(r.eventCounts).reduce((s, n) => s + n, 0);
+  console.log("most offered events:");
+  for (const [id, n] of sortedEntries(r.eventCounts).slice(0, top)) {
+    console.log(`  ${id.padEnd(28)} ${pct(n, offered)}`);
+  }
+  console.log("most made choices:");
+  for (const [id, n] of sortedEntries(r.choiceCounts).slice(0, top)) {
+    console.log(`  ${id.padEnd(28)} ${pct(n, r.eventCounts[id.split(":")[0]] ?? n)} of offers`);
+  }
+  for (const w of balanceWarnings(r)) console.log(`  ! ${w}`);
+}
+
+const reports: BatchReport[] = [];
+for (const scenarioId of scenarios) {
+  for (const policy of policyNames) {
+    reports.push(runBatch(scenarioId, policy, runs, options));
+  }
+}
+
+if (args.json) {
+  console.log(JSON.stringify(reports, null, 2));
+} else {
+  reports.forEach(printReport);
+}
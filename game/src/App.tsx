@@ -1,9 +1,22 @@
 import { useState, useEffect, useRef } from "react";
-import { initialGameState, initialStatsForScenario, type GameState, type ScenarioId } from "./gameState";
-import { pickEvent, applyEffects, setCustomEvents, customEvents, type GameEvent, type EventChoice, type EventEffect } from "./events";
-import { endOfPeriodTick } from "./finance";
-import { saveGame, loadGame, clearGame } from "./persistence";
-import { checkWin, checkLose, defaultScenarioGoals } from "./goals";
+import { createGameState, initialStatsForScenario, type GameState } from "./gameState";
+import { scenarioDefinition, scenarioList } from "./scenarioRegistry";
+import { withNextEvent, currentEvent, customPackEvents, isPackStale, type EventChoice, type EventEffect, type GameEvent } from "./events";
+import { reduceGame, type GameAction } from "./gameEngine";
+import { dailySeed, freshRng } from "./rng";
+import { accountSpecs } from "./accounts";
+import { saveStore, loadActiveGame, newSlotId, installCustomPack, restoreCustomPack, storeCustomPack } from "./persistence";
+import { streamEvents, FIRST_BATCH, MORE_EVENTS_COUNT } from "./aiClient";
+import SavesPanel from "./SavesPanel";
+import ReplayViewer from "./ReplayViewer";
+import TrendsDashboard from "./TrendsDashboard";
+import CoachPanel from "./CoachPanel";
+import GoalPanel from "./GoalPanel";
+import LogPanel from "./LogPanel";
+import { goalFields, goalOf, type ScenarioGoal } from "./goals";
+import { goalFromText } from "./goalParser";
+import { systemEntry } from "./gameLog";
+import { generateCustomScenario, statsFromProfile, type SurveyProfile } from "./proceduralPack";
 import "./App.css";
 
 function StatBar({ label, value, min = 0, max = 100, color = "blue", icon }: { label: string; value: number; min?: number; max?: number; color?: "blue" | "green" | "red" | "yellow" | "emerald" | "indigo"; icon?: string }) {
@@ -50,42 +63,175 @@ function StatBar({ label, value, min = 0, max = 100, color = "blue", icon }: { l
 }
 
 function App() {
-  const saved = loadGame();
-  const [game, setGame] = useState<GameState>(() => saved ?? { ...initialGameState });
-  const [event, setEvent] = useState<GameEvent>(() => {
-    const g = saved ?? initialGameState;
-    return pickEvent(g);
+  const [{ slotId: resumedSlotId, result: loaded }] = useState(loadActiveGame);
+  // A save that failed to load keeps its slot untouched; the new game gets its own
+  const [slotId, setSlotId] = useState(() => (loaded.status === "ok" && resumedSlotId) || newSlotId());
+  // The custom pack has to be installed before the first event is picked
+  const [packReady] = useState(() => loaded.status !== "ok" || restoreCustomPack(loaded.game));
+  const [game, setGame] = useState<GameState>(() => {
+    const g = loaded.status === "ok" ? loaded.game : createGameState("classic");
+    return g.currentEventId ? g : withNextEvent(g);
   });
-  const [choiceMade, setChoiceMade] = useState<EventChoice | null>(null);
+  const [loadError, setLoadError] = useState(loaded.status === "error" ? loaded : null);
+  const [showSaves, setShowSaves] = useState(false);
+  const [showReplay, setShowReplay] = useState(false);
+  const [showTrends, setShowTrends] = useState(false);
+  const [hardcore, setHardcore] = useState(() => game.hardcore ?? false); // applies to the next game started
+  const event = currentEvent(game);
+  const choiceMade = event?.choices.find((c) => c.id === game.currentChoiceId) ?? null;
   const [holdProgress, setHoldProgress] = useState(0);
   const [holdingChoiceId, setHoldingChoiceId] = useState<string | null>(null);
-  const [showSurvey, setShowSurvey] = useState(false);
-  const [profile, setProfile] = useState({ knowledge: 'beginner', risk: 'medium', region: 'US', income: 2500, fixedExpenses: initialStatsForScenario('classic').fixedExpenses, savings: 1000, debt: 0, goals: 'save more' });
+  const [showSurvey, setShowSurvey] = useState(!packReady);
+  const [profile, setProfile] = useState<SurveyProfile>({ knowledge: 'beginner', risk: 'medium', region: 'US', income: 2500, fixedExpenses: initialStatsForScenario('classic').fixedExpenses, savings: 1000, debt: 0, goals: 'save more' });
   const [loadingAi, setLoadingAi] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
+  const [streaming, setStreaming] = useState(false); // events still arriving for the current run
+  const streamRef = useRef<AbortController | null>(null);
   const holdTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const holdStartTimeRef = useRef<number | null>(null);
   const HOLD_TIME = 1000; // 1 seconds to confirm
   useEffect(() => {
-    saveGame(game);
-  }, [game]);
+    saveStore.save(slotId, game);
+  }, [game, slotId]);
 
-  // If a saved game loads with custom scenario but no custom events (fresh reload), prompt survey
-  useEffect(() => {
-    if (game.scenarioId === 'custom' && customEvents.length === 0) {
-      setShowSurvey(true);
-    }
-  }, [game.scenarioId]);
+  // Every turn goes through the engine; rejected actions leave the game as it was
+  const dispatch = (action: GameAction) => setGame((g) => reduceGame(g, action).state);
 
-  // Ensure we always have an event to display (defensive)
-  useEffect(() => {
-    if (!event) {
-      setEvent(pickEvent(game));
+  // Stop any event stream that belongs to the run being left
+  const cancelStream = () => {
+    streamRef.current?.abort();
+    streamRef.current = null;
+    setStreaming(false);
+  };
+
+  const startScenario = (scenarioId: string, init: Partial<GameState>) =>
+    dispatch({ type: 'startScenario', scenarioId, init: hardcore ? { ...init, hardcore: true } : init });
+
+  // Switching scenario starts a new slot so the previous run is kept
+  const startInNewSlot = (scenarioId: string, init: Partial<GameState>) => {
+    cancelStream();
+    setSlotId(newSlotId());
+    startScenario(scenarioId, init);
+  };
+
+  // Restarting replaces the run in this slot
+  const restartInSlot = (scenarioId: string, init: Partial<GameState>) => {
+    cancelStream();
+    startScenario(scenarioId, init);
+  };
+
+  // Show a saved game; a custom run whose stored pack is gone asks for a new one
+  const showLoaded = (state: GameState) => {
+    cancelStream();
+    setShowSurvey(!restoreCustomPack(state));
+    setGame(state.currentEventId ? state : withNextEvent(state));
+  };
+
+  // Basic survey validation, shared by the AI and offline paths
+  const profileError = (): string | null => {
+    if (Number.isNaN(Number(profile.income)) || Number(profile.income) < 0) return 'Income must be a non-negative number';
+    if (Number.isNaN(Number(profile.fixedExpenses)) || Number(profile.fixedExpenses) < 0) return 'Monthly Fixed Expenses must be a non-negative number';
+    if (Number.isNaN(Number(profile.savings)) || Number(profile.savings) < 0) return 'Savings must be a non-negative number';
+    if (Number.isNaN(Number(profile.debt)) || Number(profile.debt) < 0) return 'Debt must be a non-negative number';
+    return null;
+  };
+
+  const startCustomScenario = (scenario: { events: GameEvent[]; goal?: ScenarioGoal | null }, logLine: string) => {
+    startScenario('custom', { stats: statsFromProfile(profile), log: [systemEntry(logLine)], ...goalFields(scenario.goal) });
+    addToPack(scenario.events);
+    setShowSurvey(false);
+  };
+
+  // Streamed events join the pack of the custom run that asked for them. Each stored copy
+  // is a whole pack, so mid-stream calls pass store = false and the stream stores it at the end.
+  const addToPack = (events: GameEvent[], store = true) => {
+    dispatch({ type: 'loadCustomPack', events, packId: store ? storeCustomPack(events) : undefined });
+  };
+
+  // The survey streams a new pack; play starts as soon as the first few events pass validation
+  const generatePack = async () => {
+    cancelStream();
+    const controller = new AbortController();
+    streamRef.current = controller;
+    setLoadingAi(true);
+    setAiError(null);
+    const received: GameEvent[] = [];
+    // A goal parsed here keeps every clause and deadline; the server only reads one stat
+    const localGoal = goalFromText(profile.goals, profile);
+    let started = false;
+    const result = await streamEvents(profile, (ev) => {
+      received.push(ev);
+      if (started) {
+        addToPack(received, false);
+      } else if (received.length >= FIRST_BATCH) {
+        started = true;
+        startCustomScenario({ events: received, goal: localGoal }, `Started with the first ${received.length} AI events; the rest are on the way.`);
+        setLoadingAi(false);
+        setStreaming(true);
+      }
+    }, controller.signal);
+    if (controller.signal.aborted) return; // the player moved on
+    streamRef.current = null;
+    setStreaming(false);
+    setLoadingAi(false);
+
+    if (result.status === 'unreachable') {
+      const offline = generateCustomScenario(profile);
+      startCustomScenario(offline, `AI server unreachable - built ${offline.events.length} offline events from your answers.`);
+      return;
+    }
+    const goal = localGoal ?? (result.status === 'done' ? result.goal : null);
+    if (!started) {
+      if (received.length > 0) startCustomScenario({ events: received, goal }, `Loaded ${received.length} AI events`);
+      else setAiError(result.status === 'error' ? result.error : 'No usable events were generated');
+      return;
     }
-  }, [event, game]);
+    addToPack(received);
+    // Already playing: the goal is the last thing the server sends
+    if (goal) dispatch({ type: 'setGoal', goal });
+    dispatch({
+      type: 'appendSystemLog',
+      text: result.status === 'error'
+        ? `Event generation stopped early (${result.error}); playing with ${received.length} events.`
+        : `All ${received.length} AI events have arrived.`,
+    });
+  };
 
-  // Backend API base: configurable via VITE_API_BASE, defaults to same host on port 8787
-  const apiBase = import.meta.env.VITE_API_BASE ?? `${window.location.protocol}//${window.location.hostname}:8787`;
+  // Top up a custom pack mid-run with events the player has not seen
+  const requestMoreEvents = async () => {
+    cancelStream();
+    const controller = new AbortController();
+    streamRef.current = controller;
+    setStreaming(true);
+    const existing = customPackEvents();
+    const pack = [...existing];
+    const { income, fixedExpenses, savings, debt } = game.stats;
+    const result = await streamEvents(
+      {
+        ...profile,
+        income,
+        fixedExpenses,
+        savings,
+        debt,
+        existing: existing.map(({ id, title }) => ({ id, title })),
+        count: MORE_EVENTS_COUNT,
+      },
+      (ev) => {
+        pack.push(ev);
+        addToPack(pack, false);
+      },
+      controller.signal
+    );
+    if (controller.signal.aborted) return;
+    streamRef.current = null;
+    setStreaming(false);
+    const added = pack.length - existing.length;
+    if (added > 0) addToPack(pack);
+    const line =
+      result.status === 'unreachable' ? 'The event server is unreachable, so no new events were added.'
+      : added === 0 ? `No new events were added${result.status === 'error' ? `: ${result.error}` : '.'}`
+      : `${added} new events joined your pack.`;
+    dispatch({ type: 'appendSystemLog', text: line });
+  };
 
   // Build a natural-language fallback explanation if a choice lacks `explain`
   function synthesizeExplanation(effects: EventEffect): string {
@@ -167,15 +313,17 @@ function App() {
   const handleMouseDown = (choice: EventChoice) => {
     if (choiceMade) return;
     setHoldingChoiceId(choice.id);
-    holdStartTimeRef.current = Date.now();
     setHoldProgress(0);
 
     if (holdTimerRef.current) {
       clearInterval(holdTimerRef.current);
     }
 
+    // Timed from the first tick, so the clock is only read inside the timer
+    let startedAt: number | null = null;
     holdTimerRef.current = setInterval(() => {
-      const elapsed = Date.now() - (holdStartTimeRef.current || 0);
+      startedAt ??= Date.now();
+      const elapsed = Date.now() - startedAt;
       const progress = Math.min(100, (elapsed / HOLD_TIME) * 100);
       setHoldProgress(progress);
 
@@ -197,68 +345,15 @@ function App() {
   };
 
   const handleConfirmSelection = (choice: EventChoice) => {
-    if (choiceMade) return;
-    setGame((g) => {
-      const newStats = applyEffects(g.stats, choice.effects);
-      const updated: GameState = {
-        ...g,
-        stats: newStats,
-        log: [choice.log, ...g.log],
-        lastEventId: event.id,
-        lastTag: event.tag,
-        lastSeen: { ...g.lastSeen, [event.id]: g.stats.month },
-      };
-      const win = checkWin(updated);
-      const lose = checkLose(updated.stats);
-      if (win.win) {
-        return {
-          ...updated,
-          gameOver: true,
-          result: { status: 'win', message: win.message ?? 'You achieved your goal!' },
-        };
-      }
-      if (lose.lose) {
-        return {
-          ...updated,
-          gameOver: true,
-          result: { status: 'lose', message: lose.message ?? 'Game over.' },
-        };
-      }
-      return updated;
-    });
-    setChoiceMade(choice);
+    if (choiceMade || !event) return;
+    dispatch({ type: 'chooseOption', choiceId: choice.id });
   };
 
-  // Confirmation of a selected choice is handled via handleConfirmSelection (long-press flow),
-  // so the separate handleConfirm helper was removed to avoid an unused declaration.
-
-  const handleNext = () => {
-    setGame((g) => {
-      const tick = endOfPeriodTick(g.stats);
-      const updated: GameState = {
-        ...g,
-        stats: tick.stats,
-        log: [...tick.logs, ...g.log],
-      };
-      const win = checkWin(updated);
-      const lose = checkLose(updated.stats);
-      if (win.win || lose.lose) {
-        return {
-          ...updated,
-          gameOver: true,
-          result: win.win
-            ? { status: 'win', message: win.message ?? 'You achieved your goal!' }
-            : { status: 'lose', message: lose.message ?? 'Game over.' },
-        };
-      }
-      const ev = pickEvent(updated);
-      setEvent(ev);
-      return updated;
-    });
-    setChoiceMade(null);
-  };
+  const handleNext = () => dispatch({ type: 'advanceMonth' });
 
-  const { stats, log } = game;
+  const canUndo = !game.hardcore && game.undoStack.length > 0;
+
+  const { stats } = game;
 
   if (!event) {
     return (
@@ -281,66 +376,125 @@ function App() {
                 💰 The Centsible Game
               </h1>
               <p className="text-gray-600 text-sm mt-1">Navigate your financial journey</p>
+              <p className="text-gray-500 text-xs mt-1">
+                {scenarioDefinition(game.scenarioId).blurb}
+                {game.hardcore && <span className="ml-2 font-semibold text-red-700">💀 Hardcore</span>}
+              </p>
             </div>
             <div className="flex flex-col sm:flex-row gap-2 items-stretch">
               <select
                 className="px-4 py-2 border-2 border-gray-300 rounded-lg font-semibold text-gray-800 focus:outline-none focus:border-pine-600 focus:ring-1 focus:ring-mint-200"
                 value={game.scenarioId}
                 onChange={(e) => {
-                  const sc = (e.target as HTMLSelectElement).value as ScenarioId;
+                  const sc = (e.target as HTMLSelectElement).value;
                   if (sc === 'custom') {
-                    const base = initialStatsForScenario('classic');
-                    const newState: GameState = { ...initialGameState, stats: base, scenarioId: 'custom', lastSeen: {}, log: ["Custom (AI) scenario selected. Fill the survey to generate events."] };
-                    setGame(newState);
+                    startInNewSlot('custom', { log: [systemEntry("Custom (AI) scenario selected. Fill the survey to generate events.")] });
                     setShowSurvey(true);
-                    setChoiceMade(null);
                     return;
                   }
-                  const freshStats = initialStatsForScenario(sc);
-                  const newState: GameState = { ...initialGameState, stats: freshStats, scenarioId: sc, lastSeen: {}, log: [`Scenario set to ${sc}`] };
-                  setGame(newState);
-                  setEvent(pickEvent(newState));
-                  setChoiceMade(null);
+                  startInNewSlot(sc, { log: [systemEntry(`Scenario set to ${scenarioDefinition(sc).name}`)] });
                   setShowSurvey(false);
                 }}
               >
-                <option value="classic">🏠 Classic</option>
-                <option value="student">🎓 Student</option>
-                <option value="startup">🚀 Startup</option>
-                <option value="custom">✨ Custom (AI)</option>
+                {scenarioList().map((sc) => (
+                  <option key={sc.id} value={sc.id} title={sc.blurb}>{sc.icon ? `${sc.icon} ` : ''}{sc.name}</option>
+                ))}
               </select>
               <button
                 className="px-4 py-2 rounded-lg border-2 border-gray-300 hover:bg-gray-100 font-semibold text-gray-700 transition-all duration-200"
                 onClick={() => {
-                  clearGame();
                   if (game.scenarioId === 'custom') {
-                    const base = initialStatsForScenario('classic');
-                    const fresh: GameState = { ...initialGameState, stats: base, scenarioId: 'custom', lastSeen: {}, log: ["New game (AI) - fill the survey to generate events."] };
-                    setGame(fresh);
+                    restartInSlot('custom', { log: [systemEntry("New game (AI) - fill the survey to generate events.")] });
                     setShowSurvey(true);
-                    setChoiceMade(null);
                     return;
                   }
-                  const freshStats = initialStatsForScenario(game.scenarioId);
-                  const fresh: GameState = { ...initialGameState, stats: freshStats, scenarioId: game.scenarioId, lastSeen: {}, log: ["New game started."] };
-                  setGame(fresh);
-                  setEvent(pickEvent(fresh));
-                  setChoiceMade(null);
+                  restartInSlot(game.scenarioId, { log: [systemEntry("New game started.")] });
                 }}
               >
                 🔄 New Game
               </button>
+              <button
+                className="px-4 py-2 rounded-lg border-2 border-gray-300 hover:bg-gray-100 font-semibold text-gray-700 transition-all duration-200 disabled:opacity-50"
+                disabled={game.scenarioId === 'custom'}
+                title="Everyone playing this scenario today gets the same run"
+                onClick={() => {
+                  startInNewSlot(game.scenarioId, { log: [systemEntry("Daily challenge started.")], rng: freshRng(dailySeed()) });
+                }}
+              >
+                📅 Daily Challenge
+              </button>
+              <label
+                className="flex items-center gap-2 px-3 py-2 rounded-lg border-2 border-gray-300 font-semibold text-gray-700 text-sm cursor-pointer"
+                title="New games can't be undone or rewound"
+              >
+                <input type="checkbox" checked={hardcore} onChange={(e) => setHardcore(e.target.checked)} />
+                💀 Hardcore
+              </label>
               <button
                 className="px-4 py-2 rounded-lg bg-pine-600 hover:bg-pine-700 text-white font-semibold hover:shadow-lg transition-all"
-                onClick={() => saveGame(game)}
+                onClick={() => saveStore.save(slotId, game)}
               >
                 💾 Save
               </button>
+              <button
+                className="px-4 py-2 rounded-lg border-2 border-gray-300 hover:bg-gray-100 font-semibold text-gray-700 transition-all duration-200"
+                onClick={() => {
+                  saveStore.save(slotId, game);
+                  setShowSaves(true);
+                }}
+              >
+                📂 Saves
+              </button>
+              <button
+                className="px-4 py-2 rounded-lg border-2 border-gray-300 hover:bg-gray-100 font-semibold text-gray-700 transition-all duration-200"
+                onClick={() => setShowTrends(true)}
+              >
+                📈 Trends
+              </button>
             </div>
           </div>
         </div>
       </header>
       <main className="max-w-6xl mx-auto px-4 py-8">
+        {showSaves && (
+          <SavesPanel
+            currentSlotId={slotId}
+            game={game}
+            onLoad={(id, loadedGame) => {
+              setSlotId(id);
+              showLoaded(loadedGame);
+              setShowSaves(false);
+            }}
+            onImport={(fromFile, events, name) => {
+              const imported = events ? installCustomPack(fromFile, events) : fromFile;
+              const id = newSlotId();
+              saveStore.save(id, imported, name);
+              setSlotId(id);
+              showLoaded(imported);
+              setShowSaves(false);
+            }}
+            onRewind={(month) => {
+              dispatch({ type: 'rewind', month });
+              setShowSaves(false);
+            }}
+            onError={(result) => {
+              setLoadError(result);
+              setShowSaves(false);
+            }}
+            onClose={() => setShowSaves(false)}
+          />
+        )}
+        {loadError && (
+          <div className="mb-6 flex items-start justify-between gap-4 bg-yellow-50 border-2 border-yellow-400 text-yellow-900 px-4 py-3 rounded-lg">
+            <p className="text-sm">
+              <span className="font-bold">⚠️ Your saved game couldn't be loaded.</span> {loadError.error}{' '}
+              {loadError.backupKey && (
+                <>A copy was kept in your browser storage as <code className="text-xs">{loadError.backupKey}</code>.</>
+              )}
+            </p>
+            <button className="text-sm font-semibold underline" onClick={() => setLoadError(null)}>Dismiss</button>
+          </div>
+        )}
         {game.gameOver && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
             <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-lg w-full border border-gray-200 text-center">
@@ -353,29 +507,38 @@ function App() {
                 <button
                   className="px-6 py-3 bg-pine-600 hover:bg-pine-700 text-white rounded-lg font-bold"
                   onClick={() => {
-                    const freshStats = initialStatsForScenario(game.scenarioId);
-                    const reset: GameState = {
-                      ...initialGameState,
-                      stats: freshStats,
-                      scenarioId: game.scenarioId,
-                      lastSeen: {},
-                      log: ["New game started."],
+                    restartInSlot(game.scenarioId, {
+                      stats: game.startingStats,
+                      log: [systemEntry("New game started.")],
                       // Preserve custom goal when replaying custom scenario
-                      goalDescription: game.goalDescription,
-                      winCondition: game.winCondition,
-                    };
-                    setGame(reset);
-                    setEvent(pickEvent(reset));
-                    setChoiceMade(null);
+                      ...goalFields(goalOf(game)),
+                      customPackId: game.customPackId,
+                    });
                   }}
                 >
                   🔁 Replay Scenario
                 </button>
+                {canUndo && (
+                  <button
+                    className="px-6 py-3 border-2 border-gray-300 rounded-lg font-semibold text-gray-700 hover:bg-gray-50"
+                    onClick={() => dispatch({ type: 'undo' })}
+                  >
+                    ↩️ Undo Last Choice
+                  </button>
+                )}
+                {game.replay.length > 0 && (
+                  <button
+                    className="px-6 py-3 border-2 border-gray-300 rounded-lg font-semibold text-gray-700 hover:bg-gray-50"
+                    onClick={() => setShowReplay(true)}
+                  >
+                    🎞️ Watch Replay
+                  </button>
+                )}
                 <button
                   className="px-6 py-3 border-2 border-gray-300 rounded-lg font-semibold text-gray-700 hover:bg-gray-50"
                   onClick={() => {
                     // Allow switching scenario after closing popup
-                    setGame((g) => ({ ...g, gameOver: false, result: undefined }));
+                    dispatch({ type: 'dismissResult' });
                   }}
                 >
                   Close
@@ -384,60 +547,20 @@ function App() {
             </div>
           </div>
         )}
+        {showReplay && <ReplayViewer game={game} onClose={() => setShowReplay(false)} />}
+        {showTrends && <TrendsDashboard game={game} onClose={() => setShowTrends(false)} />}
         {showSurvey && game.scenarioId === 'custom' ? (
           <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-200">
             <h2 className="text-3xl font-bold text-gray-900 mb-2">Let's Learn About You</h2>
             <p className="text-gray-600 mb-6">Answer a few questions so we can personalize your financial journey</p>
             <form className="grid grid-cols-1 md:grid-cols-2 gap-6" onSubmit={async (e) => {
                 e.preventDefault();
-                setLoadingAi(true);
-                setAiError(null);
-                try {
-                  // Basic validation
-                  if (Number.isNaN(Number(profile.income)) || Number(profile.income) < 0) throw new Error('Income must be a non-negative number');
-                  if (Number.isNaN(Number(profile.fixedExpenses)) || Number(profile.fixedExpenses) < 0) throw new Error('Monthly Fixed Expenses must be a non-negative number');
-                  if (Number.isNaN(Number(profile.savings)) || Number(profile.savings) < 0) throw new Error('Savings must be a non-negative number');
-                  if (Number.isNaN(Number(profile.debt)) || Number(profile.debt) < 0) throw new Error('Debt must be a non-negative number');
-
-                  const resp = await fetch(`${apiBase}/api/generate-events`, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify(profile),
-                  });
-                  const data = await resp.json();
-                  if (!resp.ok) throw new Error(data.error || 'Failed to generate');
-                  setCustomEvents(data.events);
-                  const base = initialStatsForScenario('classic');
-                  const riskImpulse = profile.risk === 'high' ? 60 : (profile.risk === 'low' ? 25 : 40);
-                  const computedStats = {
-                    ...base,
-                    income: Number(profile.income) || base.income,
-                    fixedExpenses: Number(profile.fixedExpenses) || base.fixedExpenses,
-                    budget: (Number(profile.income) || base.income) - (Number(profile.fixedExpenses) || base.fixedExpenses),
-                    savings: Number(profile.savings) || base.savings,
-                    debt: Number(profile.debt) || base.debt,
-                    impulse: riskImpulse,
-                  };
-                  const goalFromAi = data.goal ?? null;
-                  const newState: GameState = {
-                    ...initialGameState,
-                    stats: computedStats,
-                    scenarioId: 'custom',
-                    lastSeen: {},
-                    log: [`Loaded ${data.events?.length ?? 0} AI events`],
-                    goalDescription: goalFromAi?.description,
-                    winCondition: goalFromAi?.winCondition,
-                  };
-                  setGame(newState);
-                  setEvent(pickEvent(newState));
-                  setChoiceMade(null);
-                  setShowSurvey(false);
-                } catch (err: unknown) {
-                  const msg = err instanceof Error ? err.message : String(err);
-                  setAiError(msg || 'Error generating events');
-                } finally {
-                  setLoadingAi(false);
+                const invalid = profileError();
+                if (invalid) {
+                  setAiError(invalid);
+                  return;
                 }
+                await generatePack();
               }}
             >
               <label className="flex flex-col gap-2">
@@ -497,6 +620,23 @@ function App() {
                 <button disabled={loadingAi} className="flex-1 px-6 py-3 bg-pine-600 hover:bg-pine-700 text-white rounded-lg font-bold hover:shadow-lg disabled:opacity-50" type="submit">
                   {loadingAi ? '⏳ Generating Events...' : '✨ Generate AI Events'}
                 </button>
+                <button
+                  type="button"
+                  disabled={loadingAi}
+                  title="Build the scenario from templates on this device, no AI server needed"
+                  className="px-6 py-3 border-2 border-pine-600 rounded-lg font-semibold text-pine-700 hover:bg-mint-50 disabled:opacity-50"
+                  onClick={() => {
+                    const invalid = profileError();
+                    if (invalid) {
+                      setAiError(invalid);
+                      return;
+                    }
+                    const offline = generateCustomScenario(profile);
+                    startCustomScenario(offline, `Built ${offline.events.length} offline events from your answers.`);
+                  }}
+                >
+                  🧩 Build Offline
+                </button>
                 <button type="button" className="px-6 py-3 border-2 border-gray-300 rounded-lg font-semibold text-gray-700 hover:bg-gray-50" onClick={() => setShowSurvey(false)}>Cancel</button>
               </div>
             </form>
@@ -510,13 +650,27 @@ function App() {
                   <span className="text-2xl">📅</span>
                   <span className="font-bold text-gray-800">Month {stats.month}</span>
                 </div>
+                <p className="text-xs text-gray-500 mt-2">Seed #{game.rng.seed}</p>
               </div>
-              <div className="mb-6 pb-4 border-b border-gray-200">
-                <p className="text-xs font-bold text-gray-700 mb-1 uppercase">🎯 Goal</p>
-                <p className="text-sm text-gray-800">
-                  {game.goalDescription ?? defaultScenarioGoals[game.scenarioId].description}
-                </p>
-              </div>
+              <GoalPanel game={game} />
+              {game.scenarioId === 'custom' && customPackEvents().length > 0 && (
+                <div className="mb-6 pb-4 border-b border-gray-200">
+                  <p className="text-xs font-bold text-gray-700 mb-1 uppercase">✨ Event Pack</p>
+                  <p className="text-sm text-gray-800">
+                    {customPackEvents().length} events{streaming ? ' · more on the way…' : ''}
+                  </p>
+                  {!streaming && isPackStale(game) && (
+                    <p className="text-xs text-gray-500 mt-1">You have seen most of these events. Ask for a few fresh ones?</p>
+                  )}
+                  <button
+                    className="mt-2 px-3 py-1 rounded-lg border-2 border-gray-300 hover:bg-gray-100 text-sm font-semibold text-gray-700 disabled:opacity-50"
+                    disabled={streaming}
+                    onClick={requestMoreEvents}
+                  >
+                    ✨ More events
+                  </button>
+                </div>
+              )}
               
               <div className="space-y-4 mb-6 pb-4 border-b border-gray-200">
                 <StatBar label="Savings" value={stats.savings} min={0} max={10000} color="emerald" icon="🏦" />
@@ -549,6 +703,54 @@ function App() {
                   </div>
                 </div>
               </div>
+
+              <div className="mt-4 bg-gray-50 rounded-lg p-4 border border-gray-200">
+                <p className="text-xs font-bold text-gray-700 mb-1 uppercase">🏦 Accounts</p>
+                <p className="text-xs text-gray-500 mb-3">Deficits are covered top to bottom</p>
+                <ul className="space-y-2 text-sm">
+                  {game.drainOrder.map((id, i) => (
+                    <li key={id} className="flex justify-between items-center gap-2">
+                      <span className="text-gray-700">{accountSpecs[id].icon} {accountSpecs[id].name}</span>
+                      <span className="flex items-center gap-2">
+                        <span className="font-bold text-leaf-600">${game.accounts[id]}</span>
+                        <button
+                          className="text-xs px-1 rounded border border-gray-300 text-gray-600 hover:bg-gray-100 disabled:opacity-30"
+                          disabled={i === 0}
+                          title="Draw from this account earlier"
+                          onClick={() => {
+                            const order = [...game.drainOrder];
+                            [order[i - 1], order[i]] = [order[i], order[i - 1]];
+                            dispatch({ type: 'reorderDrain', order });
+                          }}
+                        >
+                          ↑
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {game.obligations.length > 0 && (
+                <div className="mt-4 bg-gray-50 rounded-lg p-4 border border-gray-200">
+                  <p className="text-xs font-bold text-gray-700 mb-3 uppercase">🧾 Obligations</p>
+                  <ul className="space-y-2 text-sm">
+                    {game.obligations.map((o) => (
+                      <li key={o.id} className="flex justify-between gap-2">
+                        <span className="text-gray-700">
+                          {o.name}
+                          {o.kind !== 'subscription' && (
+                            <span className="block text-xs text-gray-500">${o.balance} at {(o.apr * 100).toFixed(1)}% APR</span>
+                          )}
+                        </span>
+                        <span className="font-bold text-lime-700 whitespace-nowrap">${o.minimumPayment}/mo</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <CoachPanel key={slotId} game={game} />
             </aside>
             
             {/* Main Content */}
@@ -629,25 +831,29 @@ function App() {
                 >
                   → Next Event
                 </button>
+                {canUndo && (
+                  <button
+                    className="px-6 py-3 border-2 border-gray-300 rounded-lg font-semibold text-gray-700 hover:bg-gray-50"
+                    title={`Back to the start of month ${game.undoStack[game.undoStack.length - 1].month}`}
+                    onClick={() => dispatch({ type: 'undo' })}
+                  >
+                    ↩️ Undo
+                  </button>
+                )}
               </div>
               
               
               
               <div className="pt-4 border-t border-gray-200">
-                <h3 className="font-bold text-gray-800 mb-3">📜 Event Log</h3>
-                <div className="bg-gray-50 rounded-lg p-4 max-h-40 overflow-y-auto">
-                  <ul className="text-sm text-gray-700 space-y-2">
-                    {log.slice(0, 10).map((entry, i) => (
-                      <li key={i} className="flex gap-2">
-                        <span className="text-pine-600 flex-shrink-0">→</span>
-                        <span>{entry}</span>
-                      </li>
-                    ))}
-                    {log.length > 10 && (
-                      <li className="text-xs text-gray-500 italic pt-2">... and {log.length - 10} more entries</li>
-                    )}
-                  </ul>
+                <div className="flex justify-between items-center mb-3">
+                  <h3 className="font-bold text-gray-800">📜 Event Log</h3>
+                  {game.replay.length > 0 && (
+                    <button className="text-sm font-semibold text-pine-700 hover:underline" onClick={() => setShowReplay(true)}>
+                      🎞️ Replay
+                    </button>
+                  )}
                 </div>
+                <LogPanel game={game} />
               </div>
             </section>
           </div>
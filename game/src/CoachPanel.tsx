@@ -0,0 +1,72 @@
+import { useState } from "react";
+import type { GameState } from "./gameState";
+import { askCoach, type CoachAdvice } from "./aiClient";
+
+type Props = {
+  game: GameState;
+};
+
+// Optional advice on the run so far; nothing is sent until the player asks
+function CoachPanel({ game }: Props) {
+  const [advice, setAdvice] = useState<{ month: number; advice: CoachAdvice; offline: boolean } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ask = async () => {
+    setLoading(true);
+    setError(null);
+    const result = await askCoach(game);
+    setLoading(false);
+    if (result.status === "unreachable") setError("The coach server is unreachable right now.");
+    else if (result.status === "error") setError(result.error);
+    else setAdvice({ month: game.stats.month, advice: result.advice, offline: result.source === "offline" || result.source === "mock" });
+  };
+
+  return (
+    <div className="mt-4 bg-gray-50 rounded-lg p-4 border border-gray-200">
+      <div className="flex justify-between items-center gap-2">
+        <p className="text-xs font-bold text-gray-700 uppercase">🧑‍🏫 Coach</p>
+        <button
+          className="px-3 py-1 rounded-lg border-2 border-gray-300 hover:bg-gray-100 text-sm font-semibold text-gray-700 disabled:opacity-50"
+          disabled={loading}
+          onClick={ask}
+        >
+          {loading ? "Thinking…" : advice ? "Ask again" : "Ask a coach"}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+      {advice && (
+        <div className="mt-3 space-y-3 text-sm text-gray-800">
+          <p className="text-xs text-gray-500">
+            Advice from month {advice.month}
+            {advice.offline ? " · offline coach" : ""}
+          </p>
+          <p>{advice.advice.summary}</p>
+          {advice.advice.setbacks.length > 0 && (
+            <div>
+              <p className="text-xs font-bold text-gray-700 mb-1">What set you back</p>
+              <ul className="space-y-1">
+                {advice.advice.setbacks.map((s, i) => (
+                  <li key={i}>
+                    <span className="italic">{s.entry}</span> <span className="text-gray-600">{s.why}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div>
+            <p className="text-xs font-bold text-gray-700 mb-1">Next month</p>
+            <ol className="list-decimal list-inside space-y-1">
+              {advice.advice.priorities.map((p, i) => (
+                <li key={i}>{p}</li>
+              ))}
+            </ol>
+          </div>
+          <p className="text-xs text-gray-600 bg-white rounded p-2 border border-gray-200">💡 {advice.advice.explainer}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CoachPanel;
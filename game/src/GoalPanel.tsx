@@ -0,0 +1,73 @@
+import type { GameState } from "./gameState";
+import { goalProgress, loseProgress } from "./goals";
+import { scenarioDefinition } from "./scenarioRegistry";
+import type { WinStatus } from "./winExpression";
+
+type Props = {
+  game: GameState;
+};
+
+const STATUS_ICON: Record<WinStatus, string> = { met: "✅", pending: "⬜", failed: "❌" };
+
+// The goal and how far along each part of it is
+function GoalPanel({ game }: Props) {
+  const parts = goalProgress(game);
+  // A goal that is a single condition is already said by the description
+  const showParts = parts.length > 1 || parts.some((p) => p.detail);
+  const loseParts = loseProgress(game);
+
+  return (
+    <div className="mb-6 pb-4 border-b border-gray-200">
+      <p className="text-xs font-bold text-gray-700 mb-1 uppercase">🎯 Goal</p>
+      <p className="text-sm text-gray-800">{game.goalDescription ?? scenarioDefinition(game.scenarioId).goal.description}</p>
+      {parts.length > 0 && !showParts && parts[0].fraction !== undefined && (
+        <div className="mt-2 w-full bg-gray-200 rounded-full h-1.5">
+          <div className="bg-pine-600 h-1.5 rounded-full" style={{ width: `${parts[0].fraction * 100}%` }} />
+        </div>
+      )}
+      {showParts && (
+        <ul className="mt-2 space-y-1.5 text-xs">
+          {parts.map((part, i) => (
+            <li key={i} style={{ paddingLeft: `${part.depth * 12}px` }}>
+              <div className="flex justify-between gap-2">
+                <span className={part.status === "failed" ? "text-red-600" : "text-gray-700"}>
+                  {STATUS_ICON[part.status]} {part.label}
+                </span>
+                {part.detail && <span className="text-gray-500 whitespace-nowrap">{part.detail}</span>}
+              </div>
+              {part.fraction !== undefined && part.status === "pending" && (
+                <div className="mt-1 w-full bg-gray-200 rounded-full h-1">
+                  <div className="bg-pine-600 h-1 rounded-full" style={{ width: `${part.fraction * 100}%` }} />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {loseParts.length > 0 && (
+        <div className="mt-3">
+          <p className="text-xs font-bold text-gray-500 mb-1">Game over if</p>
+          <ul className="space-y-1.5 text-xs">
+            {loseParts.map((part, i) => (
+              <li key={i}>
+                <div className="flex justify-between gap-2">
+                  <span className={part.detail ? "text-red-600" : "text-gray-600"}>
+                    {part.detail ? "⚠️" : "•"} {part.label}
+                  </span>
+                  {part.detail && <span className="text-red-500 whitespace-nowrap">{part.detail}</span>}
+                </div>
+                {part.fraction !== undefined && (
+                  <div className="mt-1 w-full bg-gray-200 rounded-full h-1">
+                    <div className="bg-red-500 h-1 rounded-full" style={{ width: `${part.fraction * 100}%` }} />
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default GoalPanel;
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import type { GameState } from "./gameState";
+import { LOG_CATEGORIES, LOG_SOURCES, logTotals, yearOf, type LogCategory, type LogDeltas, type LogEntry, type LogSource } from "./gameLog";
+
+type Props = {
+  game: GameState;
+};
+
+const CATEGORY: Record<LogCategory, { icon: string; label: string }> = {
+  choice: { icon: "🗳️", label: "Choices" },
+  income: { icon: "💵", label: "Income" },
+  expenses: { icon: "🧾", label: "Expenses" },
+  impulse: { icon: "🛍️", label: "Impulse spending" },
+  interest: { icon: "💸", label: "Interest" },
+  payments: { icon: "📆", label: "Payments" },
+  cashflow: { icon: "🌊", label: "Cash flow" },
+  savings: { icon: "🏦", label: "Savings" },
+  debt: { icon: "💳", label: "Debt" },
+  mood: { icon: "😊", label: "Mood" },
+  system: { icon: "ℹ️", label: "Game" },
+};
+
+const SOURCE_LABEL: Record<LogSource, string> = { event: "Events", tick: "Month end", system: "Game" };
+
+const STAT_LABEL: Record<keyof LogDeltas, string> = {
+  budget: "budget",
+  impulse: "impulse",
+  savings: "savings",
+  debt: "debt",
+  income: "income",
+  fixedExpenses: "fixed expenses",
+  happiness: "happiness",
+  stress: "stress",
+};
+const MONEY_STATS: (keyof LogDeltas)[] = ["budget", "savings", "debt", "income", "fixedExpenses"];
+
+function formatDeltas(deltas: LogDeltas): string {
+  return (Object.entries(deltas) as [keyof LogDeltas, number][])
+    .filter(([, value]) => value !== 0)
+    .map(([stat, value]) => `${STAT_LABEL[stat]} ${value > 0 ? "+" : "-"}${MONEY_STATS.includes(stat) ? "$" : ""}${Math.abs(value)}`)
+    .join(", ");
+}
+
+// Consecutive entries of the same month, newest month first like the log itself
+function groupByMonth(entries: LogEntry[]): { month: number; entries: LogEntry[] }[] {
+  const groups: { month: number; entries: LogEntry[] }[] = [];
+  for (const entry of entries) {
+    const last = groups[groups.length - 1];
+    if (last && last.month === entry.month) last.entries.push(entry);
+    else groups.push({ month: entry.month, entries: [entry] });
+  }
+  return groups;
+}
+
+// The game log, filtered by where lines came from and what they were about, with totals
+function LogPanel({ game }: Props) {
+  const [source, setSource] = useState<LogSource | "all">("all");
+  const [category, setCategory] = useState<LogCategory | "all">("all");
+  const [period, setPeriod] = useState<"year" | "all">("year");
+  const year = yearOf(game.stats.month);
+
+  const shown = game.log.filter((e) => (source === "all" || e.source === source) && (category === "all" || e.category === category));
+  const counted = period === "all" ? shown : shown.filter((e) => e.month > 0 && yearOf(e.month) === year);
+  const totals = LOG_CATEGORIES.map((c) => ({ category: c, text: formatDeltas(logTotals(counted.filter((e) => e.category === c))) })).filter((t) => t.text);
+  const selectClass = "px-2 py-1 border-2 border-gray-300 rounded-lg text-xs font-semibold text-gray-700 focus:outline-none focus:border-pine-600";
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-3">
+        <select className={selectClass} value={source} onChange={(e) => setSource(e.target.value as LogSource | "all")}>
+          <option value="all">All sources</option>
+          {LOG_SOURCES.map((s) => (
+            <option key={s} value={s}>{SOURCE_LABEL[s]}</option>
+          ))}
+        </select>
+        <select className={selectClass} value={category} onChange={(e) => setCategory(e.target.value as LogCategory | "all")}>
+          <option value="all">All categories</option>
+          {LOG_CATEGORIES.map((c) => (
+            <option key={c} value={c}>{CATEGORY[c].icon} {CATEGORY[c].label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-gray-50 rounded-lg p-4 max-h-64 overflow-y-auto">
+        {shown.length === 0 && <p className="text-sm text-gray-500 italic">Nothing logged here yet.</p>}
+        {groupByMonth(shown).map((group, i) => (
+          <div key={i} className="mb-3 last:mb-0">
+            <p className="text-xs font-bold uppercase text-gray-500 mb-1">{group.month > 0 ? `Month ${group.month}` : "Earlier"}</p>
+            <ul className="text-sm text-gray-700 space-y-1">
+              {group.entries.map((entry, j) => (
+                <li key={j} className="flex gap-2">
+                  <span className="flex-shrink-0" title={CATEGORY[entry.category].label}>{CATEGORY[entry.category].icon}</span>
+                  <span>{entry.text}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3">
+        <div className="flex justify-between items-center mb-1">
+          <p className="text-xs font-bold text-gray-700 uppercase">Totals · {period === "year" ? `Year ${year}` : "All time"}</p>
+          <div className="flex gap-1 text-xs">
+            <button className={`px-2 py-0.5 rounded ${period === "year" ? "bg-pine-600 text-white" : "text-gray-600"}`} onClick={() => setPeriod("year")}>This year</button>
+            <button className={`px-2 py-0.5 rounded ${period === "all" ? "bg-pine-600 text-white" : "text-gray-600"}`} onClick={() => setPeriod("all")}>All time</button>
+          </div>
+        </div>
+        {totals.length === 0 ? (
+          <p className="text-xs text-gray-500 italic">No money or mood moved in this period.</p>
+        ) : (
+          <ul className="text-xs text-gray-700 space-y-0.5">
+            {totals.map((t) => (
+              <li key={t.category} className="flex justify-between gap-2">
+                <span>{CATEGORY[t.category].icon} {CATEGORY[t.category].label}</span>
+                <span className="text-right">{t.text}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default LogPanel;
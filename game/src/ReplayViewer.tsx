@@ -0,0 +1,142 @@
+import { useState } from "react";
+import type { GameState, GameStats } from "./gameState";
+import type { TickBreakdown } from "./finance";
+import { findEvent } from "./events";
+
+type Props = {
+  game: GameState;
+  onClose: () => void;
+};
+
+const STAT_ROWS: { key: keyof GameStats; label: string; money?: boolean }[] = [
+  { key: "savings", label: "🏦 Savings", money: true },
+  { key: "debt", label: "💳 Debt", money: true },
+  { key: "income", label: "💵 Income", money: true },
+  { key: "fixedExpenses", label: "🧾 Fixed expenses", money: true },
+  { key: "happiness", label: "😊 Happiness" },
+  { key: "stress", label: "😰 Stress" },
+  { key: "impulse", label: "🛍️ Impulse" },
+];
+
+const TICK_ROWS: { key: keyof TickBreakdown; label: string }[] = [
+  { key: "cashFlow", label: "Cash flow" },
+  { key: "impulseSpend", label: "Impulse spending" },
+  { key: "payments", label: "Loan and subscription payments" },
+  { key: "interest", label: "Interest charged" },
+  { key: "newDebt", label: "Deficit put on the card" },
+  { key: "growth", label: "Investment returns" },
+  { key: "incomeChange", label: "Income change" },
+  { key: "expenseChange", label: "Fixed expenses change" },
+];
+
+const money = (n: number) => `${n < 0 ? "-" : ""}$${Math.abs(n)}`;
+const signed = (n: number, asMoney?: boolean) => (n === 0 ? "" : `${n > 0 ? "+" : "-"}${asMoney ? "$" : ""}${Math.abs(n)}`);
+const draws = (values: number[]) => (values.length > 0 ? values.map((v) => v.toFixed(3)).join(", ") : "none");
+
+// Step through a run's recorded months: what was offered, what was chosen and what it did
+function ReplayViewer({ game, onClose }: Props) {
+  const { replay } = game;
+  const [step, setStep] = useState(0);
+  const record = replay[Math.min(step, replay.length - 1)];
+  const last = step >= replay.length - 1;
+
+  if (!record) {
+    return null;
+  }
+  const event = findEvent(game.scenarioId, record.eventId);
+  const choice = event?.choices.find((c) => c.id === record.choiceId);
+  const stages = [record.before, record.afterChoice, record.after];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl p-6 max-w-2xl w-full border border-gray-200 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-gray-900">🎞️ Replay · Month {record.month}</h2>
+          <button className="text-gray-500 hover:text-gray-800 font-bold" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="flex items-center gap-2 mb-5">
+          <button className="px-3 py-1 rounded-lg border-2 border-gray-300 font-semibold text-gray-700 disabled:opacity-50" disabled={step === 0} onClick={() => setStep(0)}>⏮</button>
+          <button className="px-3 py-1 rounded-lg border-2 border-gray-300 font-semibold text-gray-700 disabled:opacity-50" disabled={step === 0} onClick={() => setStep(step - 1)}>◀</button>
+          <input
+            type="range"
+            className="flex-1"
+            min={0}
+            max={replay.length - 1}
+            value={step}
+            onChange={(e) => setStep(Number(e.target.value))}
+          />
+          <button className="px-3 py-1 rounded-lg border-2 border-gray-300 font-semibold text-gray-700 disabled:opacity-50" disabled={last} onClick={() => setStep(step + 1)}>▶</button>
+          <button className="px-3 py-1 rounded-lg border-2 border-gray-300 font-semibold text-gray-700 disabled:opacity-50" disabled={last} onClick={() => setStep(replay.length - 1)}>⏭</button>
+          <span className="text-xs text-gray-500 whitespace-nowrap">{step + 1} / {replay.length}</span>
+        </div>
+
+        <div className="mb-5">
+          <p className="font-bold text-gray-900">{event?.title ?? record.eventId}</p>
+          {event && <p className="text-sm text-gray-600 mb-2">{event.description}</p>}
+          <p className="text-sm text-pine-800">
+            <span className="font-semibold">Chose:</span> {choice?.label ?? record.choiceId}
+          </p>
+        </div>
+
+        <table className="w-full text-sm mb-5">
+          <thead>
+            <tr className="text-left text-xs uppercase text-gray-500">
+              <th className="py-1">Stat</th>
+              <th className="py-1 text-right">Start</th>
+              <th className="py-1 text-right">After choice</th>
+              <th className="py-1 text-right">Month end</th>
+            </tr>
+          </thead>
+          <tbody>
+            {STAT_ROWS.map(({ key, label, money: asMoney }) => (
+              <tr key={key} className="border-t border-gray-100">
+                <td className="py-1 text-gray-700">{label}</td>
+                {stages.map((stats, i) => {
+                  const previous = i > 0 ? stages[i - 1] : undefined;
+                  return (
+                    <td key={i} className="py-1 text-right text-gray-900">
+                      {stats ? (asMoney ? money(stats[key]) : stats[key]) : "–"}
+                      {stats && previous && (
+                        <span className="ml-1 text-xs text-gray-500">{signed(stats[key] - previous[key], asMoney)}</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {record.tick && (
+          <div className="mb-5">
+            <h3 className="font-bold text-gray-800 mb-1">Month end</h3>
+            <ul className="text-sm text-gray-700 space-y-0.5">
+              {TICK_ROWS.filter(({ key }) => record.tick![key] !== 0).map(({ key, label }) => (
+                <li key={key} className="flex justify-between">
+                  <span>{label}</span>
+                  <span>{money(record.tick![key])}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="text-xs text-gray-500 space-y-0.5">
+          <p className="font-semibold text-gray-600">🎲 Random draws</p>
+          <p>Choice: {draws(record.draws.choice)}</p>
+          <p>Month end: {draws(record.draws.tick)}</p>
+          <p>Next event: {draws(record.draws.nextEvent)}</p>
+        </div>
+
+        {last && game.result && (
+          <p className={`mt-5 font-bold ${game.result.status === "win" ? "text-pine-700" : "text-red-700"}`}>
+            {game.result.status === "win" ? "🏆" : "💥"} {game.result.message}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ReplayViewer;
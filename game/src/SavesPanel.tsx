@@ -0,0 +1,175 @@
+import { useRef, useState } from "react";
+import type { GameState } from "./gameState";
+import { customPackEvents, type GameEvent } from "./events";
+import { saveStore, type LoadResult } from "./persistence";
+import { downloadJson, exportRun, exportScenario, fileSlug, gameFromScenario, readImportFile } from "./importExport";
+
+type Props = {
+  currentSlotId: string;
+  game: GameState;
+  onLoad: (slotId: string, game: GameState) => void;
+  onImport: (game: GameState, events?: GameEvent[], name?: string) => void;
+  onRewind: (month: number) => void;
+  onError: (result: Extract<LoadResult, { status: "error" }>) => void;
+  onClose: () => void;
+};
+
+function SavesPanel({ currentSlotId, game, onLoad, onImport, onRewind, onError, onClose }: Props) {
+  const [slots, setSlots] = useState(() => saveStore.list());
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const months = game.hardcore ? [] : game.undoStack.map((e) => e.month).reverse(); // newest first
+  const pack = customPackEvents();
+  const refresh = () => setSlots(saveStore.list());
+
+  const handleImport = async (file: File) => {
+    const result = readImportFile(await file.text());
+    if (!result.ok) {
+      setImportError(result.error);
+      return;
+    }
+    // Partly readable packs still import; say what was left out
+    if (result.warnings.length > 0) {
+      window.alert(`Imported with ${result.warnings.length} problem(s):\n${result.warnings.slice(0, 5).join("\n")}`);
+    }
+    if (result.kind === "run") onImport(result.game, result.events);
+    else onImport(gameFromScenario(result.scenario), result.scenario.events, result.scenario.name);
+  };
+
+  const handle = (result: LoadResult, apply: (game: GameState) => void) => {
+    if (result.status === "ok") apply(result.game);
+    else if (result.status === "error") onError(result);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl p-6 max-w-2xl w-full border border-gray-200 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-gray-900">📂 Saved Games</h2>
+          <button className="text-gray-500 hover:text-gray-800 font-bold" onClick={onClose}>✕</button>
+        </div>
+
+        <ul className="space-y-3 mb-6">
+          {slots.map((slot) => {
+            const current = slot.id === currentSlotId;
+            return (
+              <li key={slot.id} className={`rounded-lg border-2 p-4 ${current ? "border-pine-600 bg-mint-50" : "border-gray-200"}`}>
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div>
+                    <p className="font-bold text-gray-900">
+                      {slot.name} {current && <span className="text-xs text-pine-700">(playing)</span>}
+                    </p>
+                    <p className="text-xs text-gray-600">
+                      {slot.scenarioId} · Month {slot.month}{slot.gameOver ? " · finished" : ""}{slot.hardcore ? " · 💀 hardcore" : ""} · last played {new Date(slot.lastPlayed).toLocaleString()}
+                    </p>
+                    <p className="text-xs text-gray-600">
+                      🏦 ${slot.savings} · 💳 ${slot.debt} · 😊 {slot.happiness} · 😰 {slot.stress}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      className="px-3 py-1 rounded-lg bg-pine-600 hover:bg-pine-700 text-white text-sm font-semibold disabled:opacity-50"
+                      disabled={current}
+                      onClick={() => handle(saveStore.load(slot.id), (game) => onLoad(slot.id, game))}
+                    >
+                      Load
+                    </button>
+                    <button
+                      className="px-3 py-1 rounded-lg border-2 border-gray-300 hover:bg-gray-100 text-sm font-semibold text-gray-700"
+                      onClick={() => {
+                        saveStore.duplicate(slot.id);
+                        refresh();
+                      }}
+                    >
+                      Duplicate
+                    </button>
+                    <button
+                      className="px-3 py-1 rounded-lg border-2 border-red-300 hover:bg-red-50 text-sm font-semibold text-red-700 disabled:opacity-50"
+                      disabled={current}
+                      title={current ? "You can't delete the game you are playing" : undefined}
+                      onClick={() => {
+                        if (!window.confirm(`Delete "${slot.name}"?`)) return;
+                        saveStore.remove(slot.id);
+                        refresh();
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+          {slots.length === 0 && <li className="text-sm text-gray-500 italic">No saved games yet.</li>}
+        </ul>
+
+        <div className="pt-4 mb-6 border-t border-gray-200">
+          <h3 className="font-bold text-gray-800 mb-1">📤 Export & import</h3>
+          <p className="text-xs text-gray-500 mb-3">
+            Download this run or its custom scenario as a file to keep or share. Imports always open in a new slot.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              className="px-3 py-1 rounded-lg border-2 border-gray-300 hover:bg-gray-100 text-sm font-semibold text-gray-700"
+              onClick={() => downloadJson(`centible-run-${game.scenarioId}-month-${game.stats.month}.json`, exportRun(game, pack))}
+            >
+              Export run
+            </button>
+            {game.scenarioId === "custom" && (
+              <button
+                className="px-3 py-1 rounded-lg border-2 border-gray-300 hover:bg-gray-100 text-sm font-semibold text-gray-700 disabled:opacity-50"
+                disabled={pack.length === 0}
+                title={pack.length === 0 ? "Generate or import custom events first" : "Events, goal and starting stats only"}
+                onClick={() => {
+                  const name = window.prompt("Name this scenario", game.goalDescription ?? "Custom scenario");
+                  if (!name) return;
+                  downloadJson(`centible-scenario-${fileSlug(name)}.json`, exportScenario(name, game, pack));
+                }}
+              >
+                Export scenario
+              </button>
+            )}
+            <button
+              className="px-3 py-1 rounded-lg bg-pine-600 hover:bg-pine-700 text-white text-sm font-semibold"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Import file…
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = ""; // allow picking the same file again
+                if (file) handleImport(file);
+              }}
+            />
+          </div>
+          {importError && <p className="mt-2 text-sm text-red-700">{importError}</p>}
+        </div>
+
+        {months.length > 0 && (
+          <div className="pt-4 border-t border-gray-200">
+            <h3 className="font-bold text-gray-800 mb-1">⏪ Rewind this game</h3>
+            <p className="text-xs text-gray-500 mb-3">Go back to the start of a recent month. Everything since is discarded.</p>
+            <div className="flex flex-wrap gap-2">
+              {months.map((month) => (
+                <button
+                  key={month}
+                  className="px-3 py-1 rounded-lg border-2 border-gray-300 hover:border-pine-600 hover:bg-mint-100 text-sm font-semibold text-gray-700"
+                  onClick={() => onRewind(month)}
+                >
+                  Month {month}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SavesPanel;
@@ -0,0 +1,152 @@
+import type { GameState } from "./gameState";
+import { cashFlows, majorChoices, netWorth, series, MAJOR_CHOICE_AMOUNT, type ChartMarker, type SeriesPoint } from "./timeline";
+
+type Props = {
+  game: GameState;
+  onClose: () => void;
+};
+
+type Series = { label: string; color: string; points: SeriesPoint[] };
+
+type ChartProps = {
+  title: string;
+  lines: Series[];
+  markers: ChartMarker[];
+  format: (value: number) => string;
+  range?: [number, number]; // fixed y range, e.g. 0-100 meters
+};
+
+const WIDTH = 560;
+const HEIGHT = 170;
+const PAD = { left: 56, right: 8, top: 10, bottom: 22 };
+const MARKER_COLOR = "#d97706";
+
+const money = (n: number) => `${n < 0 ? "-" : ""}$${Math.abs(Math.round(n)).toLocaleString()}`;
+const points = (n: number) => String(Math.round(n));
+
+// One chart: a line per series over the months, a zero line when values cross it,
+// and a dashed marker (hover for the choice) at every major choice
+function LineChart({ title, lines, markers, format, range }: ChartProps) {
+  const all = lines.flatMap((l) => l.points);
+  if (all.length === 0) return null;
+  const months = all.map((p) => p.month);
+  const [firstMonth, lastMonth] = [Math.min(...months), Math.max(...months)];
+  const values = all.map((p) => p.value);
+  let [low, high] = range ?? [Math.min(0, ...values), Math.max(0, ...values)];
+  if (low === high) [low, high] = [low - 1, high + 1];
+
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const x = (month: number) => PAD.left + (lastMonth === firstMonth ? plotWidth / 2 : ((month - firstMonth) / (lastMonth - firstMonth)) * plotWidth);
+  const y = (value: number) => PAD.top + (1 - (value - low) / (high - low)) * plotHeight;
+
+  return (
+    <div className="mb-5">
+      <h3 className="font-bold text-gray-800 mb-1">{title}</h3>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(high)} y2={y(high)} stroke="#e5e7eb" />
+        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(low)} y2={y(low)} stroke="#e5e7eb" />
+        {low < 0 && high > 0 && <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} stroke="#9ca3af" strokeDasharray="2 2" />}
+        <text x={PAD.left - 6} y={y(high) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{format(high)}</text>
+        <text x={PAD.left - 6} y={y(low) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{format(low)}</text>
+        <text x={x(firstMonth)} y={HEIGHT - 6} textAnchor="start" fontSize="11" fill="#6b7280">Month {firstMonth}</text>
+        {lastMonth !== firstMonth && (
+          <text x={x(lastMonth)} y={HEIGHT - 6} textAnchor="end" fontSize="11" fill="#6b7280">Month {lastMonth}</text>
+        )}
+
+        {markers
+          .filter((m) => m.month >= firstMonth && m.month <= lastMonth)
+          .map((m, i) => (
+            <line key={i} x1={x(m.month)} x2={x(m.month)} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke={MARKER_COLOR} strokeWidth="2" strokeDasharray="4 3">
+              <title>Month {m.month}: {m.label}</title>
+            </line>
+          ))}
+
+        {lines.map((line) => (
+          <g key={line.label}>
+            <polyline
+              points={line.points.map((p) => `${x(p.month)},${y(p.value)}`).join(" ")}
+              fill="none"
+              stroke={line.color}
+              strokeWidth="2"
+              strokeLinejoin="round"
+            />
+            {line.points.length === 1 && <circle cx={x(line.points[0].month)} cy={y(line.points[0].value)} r="3" fill={line.color} />}
+          </g>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+        {lines.map((line) => (
+          <span key={line.label} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: line.color }} />
+            {line.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// How the run has gone month by month
+function TrendsDashboard({ game, onClose }: Props) {
+  const { timeline } = game;
+  const markers = majorChoices(game);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl p-6 max-w-3xl w-full border border-gray-200 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-2xl font-bold text-gray-900">📈 Trends</h2>
+          <button className="text-gray-500 hover:text-gray-800 font-bold" onClick={onClose}>✕</button>
+        </div>
+        {timeline.length < 2 ? (
+          <p className="text-gray-600">Finish a month to start seeing how your money moves over time.</p>
+        ) : (
+          <>
+            <p className="text-xs text-gray-500 mb-4">
+              <span className="font-semibold" style={{ color: MARKER_COLOR }}>┆</span> marks a choice that moved your net worth by {money(MAJOR_CHOICE_AMOUNT)} or more; hover it to see which.
+            </p>
+            <LineChart
+              title="🏦 Net worth"
+              lines={[
+                { label: "Net worth (savings minus debt)", color: "#347175", points: series(timeline, netWorth) },
+                { label: "Savings", color: "#5EC57E", points: series(timeline, (s) => s.savings) },
+                { label: "Debt", color: "#dc2626", points: series(timeline, (s) => s.debt) },
+              ]}
+              markers={markers}
+              format={money}
+            />
+            <LineChart
+              title="🌊 Cash flow"
+              lines={[
+                { label: "Change in net worth", color: "#347175", points: cashFlows(timeline) },
+                { label: "Income minus fixed expenses", color: "#9ca3af", points: series(timeline, (s) => s.income - s.fixedExpenses) },
+              ]}
+              markers={markers}
+              format={money}
+            />
+            <LineChart
+              title="😊 Stress and happiness"
+              lines={[
+                { label: "Happiness", color: "#4FB671", points: series(timeline, (s) => s.happiness) },
+                { label: "Stress", color: "#dc2626", points: series(timeline, (s) => s.stress) },
+              ]}
+              markers={markers}
+              format={points}
+              range={[0, 100]}
+            />
+            <LineChart
+              title="🛍️ Impulse"
+              lines={[{ label: "Impulse", color: "#7c3aed", points: series(timeline, (s) => s.impulse) }]}
+              markers={markers}
+              format={points}
+              range={[0, 100]}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TrendsDashboard;
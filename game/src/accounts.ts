@@ -0,0 +1,103 @@
+// accounts.ts
+// Where the player's savings actually sit. stats.savings stays the aggregate the
+// rest of the game reads; these balances say how it is split and how it grows.
+
+import type { Rng } from "./rng";
+import type { LogLine } from "./gameLog";
+
+export type AccountId = "emergency" | "highYield" | "index";
+export type Accounts = Record<AccountId, number>;
+
+export type AccountSpec = {
+  name: string;
+  icon: string;
+  monthlyRate?: number; // fixed interest
+  monthlyReturn?: { mean: number; sd: number }; // drawn each month from a normal distribution
+};
+
+export const accountSpecs: Record<AccountId, AccountSpec> = {
+  emergency: { name: "Emergency fund", icon: "🛟", monthlyRate: 0.001 }, // ~1.2% a year, always liquid
+  highYield: { name: "High-yield savings", icon: "🏦", monthlyRate: 0.0035 }, // ~4.3% a year
+  index: { name: "Index fund", icon: "📈", monthlyReturn: { mean: 0.007, sd: 0.045 } }, // ~8% a year, volatile
+};
+
+export const ACCOUNT_IDS: AccountId[] = ["emergency", "highYield", "index"];
+export const defaultDrainOrder: AccountId[] = ["emergency", "highYield", "index"];
+
+export type Transfer = { from: AccountId; to: AccountId; amount: number };
+
+// Deposits land in the emergency fund
+export function openingAccounts(savings: number): Accounts {
+  return { emergency: Math.max(0, savings), highYield: 0, index: 0 };
+}
+
+export function accountsTotal(accounts: Accounts): number {
+  return ACCOUNT_IDS.reduce((sum, id) => sum + accounts[id], 0);
+}
+
+// Draw `amount` from accounts in the given order; `shortfall` is what they could not cover
+export function withdraw(
+  accounts: Accounts,
+  amount: number,
+  drainOrder: AccountId[]
+): { accounts: Accounts; shortfall: number } {
+  const next = { ...accounts };
+  let remaining = amount;
+  for (const id of drainOrder) {
+    if (remaining <= 0) break;
+    const take = Math.min(next[id], remaining);
+    next[id] -= take;
+    remaining -= take;
+  }
+  return { accounts: next, shortfall: Math.max(0, remaining) };
+}
+
+// Make the accounts add up to the aggregate savings stat after events nudged it
+export function reconcileSavings(
+  accounts: Accounts,
+  savings: number,
+  drainOrder: AccountId[]
+): { accounts: Accounts; shortfall: number } {
+  const diff = Math.round(savings - accountsTotal(accounts));
+  if (diff >= 0) return { accounts: { ...accounts, emergency: accounts.emergency + diff }, shortfall: 0 };
+  return withdraw(accounts, -diff, drainOrder);
+}
+
+export function applyTransfers(accounts: Accounts, transfers: Transfer[]): { accounts: Accounts; logs: LogLine[] } {
+  const next = { ...accounts };
+  const logs: LogLine[] = [];
+  for (const t of transfers) {
+    const amount = Math.min(next[t.from], t.amount);
+    if (amount <= 0) continue;
+    next[t.from] -= amount;
+    next[t.to] += amount;
+    logs.push({ category: "savings", text: `Moved $${amount} from ${accountSpecs[t.from].name} to ${accountSpecs[t.to].name}.` });
+  }
+  return { accounts: next, logs };
+}
+
+// Standard normal via Box-Muller, from two seeded draws
+function normal(rng: Rng): number {
+  const u1 = 1 - rng.next(); // (0, 1]
+  const u2 = rng.next();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+// One month of interest and market returns
+export function growAccounts(accounts: Accounts, rng: Rng): { accounts: Accounts; logs: LogLine[] } {
+  const next = { ...accounts };
+  const logs: LogLine[] = [];
+  for (const id of ACCOUNT_IDS) {
+    const spec = accountSpecs[id];
+    if (next[id] <= 0) continue;
+    const rate = spec.monthlyReturn ? spec.monthlyReturn.mean + spec.monthlyReturn.sd * normal(rng) : (spec.monthlyRate ?? 0);
+    const change = Math.round(next[id] * rate);
+    if (change === 0) continue;
+    next[id] = Math.max(0, next[id] + change);
+    const text = spec.monthlyReturn
+      ? `${spec.name} ${change >= 0 ? "gained" : "lost"} ${(rate * 100).toFixed(1)}%: ${change >= 0 ? "+" : "-"}$${Math.abs(change)}`
+      : `${spec.name} interest: +$${change}`;
+    logs.push({ category: "savings", text, deltas: { savings: change } });
+  }
+  return { accounts: next, logs };
+}
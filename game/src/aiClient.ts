@@ -0,0 +1,143 @@
+// aiClient.ts
+// Client for the AI server: the event stream (NDJSON, one message per line) and the coach.
+
+import type { GameEvent } from "./events";
+import type { GameState } from "./gameState";
+import { activeLoseRules, activeWin, goalProgress, loseProgress, type ScenarioGoal } from "./goals";
+import { scenarioDefinition } from "./scenarioRegistry";
+import { parseEvent } from "./eventSchema";
+
+// Backend API base: configurable via VITE_API_BASE, defaults to same host on port 8787
+export const apiBase: string =
+  import.meta.env.VITE_API_BASE ?? `${window.location.protocol}//${window.location.hostname}:8787`;
+
+export const FIRST_BATCH = 5; // events needed before a new custom run starts
+export const MORE_EVENTS_COUNT = 5; // events per mid-run top-up
+
+export type StreamResult =
+  | { status: "unreachable" } // no connection at all; callers can fall back to offline generation
+  | { status: "error"; error: string } // events delivered before the failure are kept by the caller
+  | { status: "done"; goal: ScenarioGoal | null; complete: boolean }; // complete: every tag was filled
+
+type StreamMessage =
+  | { type: "event"; event: unknown }
+  | { type: "goal"; goal: ScenarioGoal | null }
+  | { type: "done"; ok: boolean }
+  | { type: "error"; error: string };
+
+// Streams events as they pass server-side validation. Events are checked again here,
+// since the server is just another untrusted source.
+export async function streamEvents(
+  body: object,
+  onEvent: (event: GameEvent) => void,
+  signal?: AbortSignal
+): Promise<StreamResult> {
+  let resp: Response;
+  try {
+    resp = await fetch(`${apiBase}/api/generate-events/stream`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch {
+    return signal?.aborted ? { status: "error", error: "Cancelled." } : { status: "unreachable" };
+  }
+  if (!resp.ok || !resp.body) {
+    const data = await resp.json().catch(() => ({}));
+    return { status: "error", error: data.error || "Failed to generate" };
+  }
+
+  let goal: ScenarioGoal | null = null;
+  let complete = false;
+  let error: string | null = null;
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    let message: StreamMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return; // a cut-off line; the server reports missing events in "done"
+    }
+    if (message.type === "event") {
+      const event = parseEvent(message.event);
+      if (typeof event !== "string") onEvent(event);
+    } else if (message.type === "goal") {
+      goal = message.goal;
+    } else if (message.type === "done") {
+      complete = message.ok;
+    } else if (message.type === "error") {
+      error = message.error;
+    }
+  };
+
+  try {
+    const reader = resp.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer);
+  } catch {
+    return { status: "error", error: signal?.aborted ? "Cancelled." : "The connection to the event server dropped." };
+  }
+  return error ? { status: "error", error } : { status: "done", goal, complete };
+}
+
+export type CoachAdvice = {
+  summary: string;
+  setbacks: { entry: string; why: string }[]; // recent choices that hurt the goal
+  priorities: string[];
+  explainer: string; // interest or cash-flow effect, with the player's numbers
+};
+
+export type CoachResult =
+  | { status: "unreachable" }
+  | { status: "error"; error: string }
+  | { status: "done"; advice: CoachAdvice; source: string }; // source: provider name, or "offline"
+
+// Trimmed to match COACH_LOG_LINES in server/coach.js, which the server enforces
+const COACH_LOG_LINES = 12;
+
+// Sends the parts of the game the coach reads; the newest log lines carry the recent choices
+export async function askCoach(game: GameState): Promise<CoachResult> {
+  const win = activeWin(game);
+  const loseParts = loseProgress(game);
+  let resp: Response;
+  try {
+    resp = await fetch(`${apiBase}/api/coach`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        scenarioId: game.scenarioId,
+        stats: game.stats,
+        startingStats: game.startingStats,
+        goalDescription: game.goalDescription ?? scenarioDefinition(game.scenarioId).goal.description,
+        // A plain `stat op value` goal lets the coach count what is left; every goal also goes as progress lines
+        winCondition: win && "condition" in win && "value" in win.condition ? win.condition : undefined,
+        goalParts: goalProgress(game).map(
+          (p) => `${"  ".repeat(p.depth)}${p.label}: ${p.status}${p.detail ? ` (${p.detail})` : ""}`
+        ),
+        // The rules as the sidebar shows them, so the coach warns about the run's real limits
+        loseRules: activeLoseRules(game).map((rule, i) => ({
+          label: loseParts[i].label,
+          ...("condition" in rule ? { condition: rule.condition } : { missedPayment: true }),
+          months: rule.months,
+          detail: loseParts[i].detail,
+        })),
+        log: game.log.slice(0, COACH_LOG_LINES).map((entry) => entry.text),
+        obligations: game.obligations,
+      }),
+    });
+  } catch {
+    return { status: "unreachable" };
+  }
+  const data = await resp.json().catch(() => ({}));
+  if (!resp.ok || !data.advice) return { status: "error", error: data.error || "The coach could not answer" };
+  return { status: "done", advice: data.advice, source: String(data.source ?? "") };
+}
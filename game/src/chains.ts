@@ -0,0 +1,70 @@
+// chains.ts
+// Follow-ups scheduled by choices: a later event or deferred effects N months on.
+
+import type { GameState } from "./gameState";
+import { applyEffects, type EventChoice, type EventEffect } from "./events";
+import type { Rng } from "./rng";
+import type { LogEntry } from "./gameLog";
+
+export type FollowUp =
+  | { kind: "event"; eventId: string; delay: number; chance?: number }
+  | { kind: "effects"; effects: EventEffect; log: string; delay: number; chance?: number };
+
+export type ScheduledItem = {
+  dueMonth: number;
+  source: string; // "eventId:choiceId" that scheduled it
+} & (
+  | { kind: "event"; eventId: string }
+  | { kind: "effects"; effects: EventEffect; log: string }
+);
+
+// Queue a choice's follow-ups; chances are rolled now so the outcome is fixed by the seed
+export function scheduleFollowUps(
+  scheduled: ScheduledItem[],
+  eventId: string,
+  choice: EventChoice,
+  month: number,
+  rng: Rng
+): ScheduledItem[] {
+  if (!choice.followUps?.length) return scheduled;
+  const source = `${eventId}:${choice.id}`;
+  const added: ScheduledItem[] = [];
+  for (const f of choice.followUps) {
+    if (f.chance !== undefined && rng.next() >= f.chance) continue;
+    const dueMonth = month + Math.max(1, f.delay);
+    added.push(
+      f.kind === "event"
+        ? { kind: "event", eventId: f.eventId, dueMonth, source }
+        : { kind: "effects", effects: f.effects, log: f.log, dueMonth, source }
+    );
+  }
+  return [...scheduled, ...added];
+}
+
+// Apply deferred effects that have come due this month
+export function applyDueEffects(state: GameState): GameState {
+  const now = state.stats.month;
+  const due = state.scheduled.filter((s) => s.kind === "effects" && s.dueMonth <= now);
+  if (due.length === 0) return state;
+  let stats = state.stats;
+  const logs: LogEntry[] = [];
+  for (const item of due) {
+    if (item.kind !== "effects") continue;
+    stats = applyEffects(stats, item.effects);
+    logs.push({ month: now, source: "event", category: "choice", text: item.log, deltas: item.effects });
+  }
+  return {
+    ...state,
+    stats,
+    log: [...logs, ...state.log],
+    scheduled: state.scheduled.filter((s) => !due.includes(s)),
+  };
+}
+
+// Earliest follow-up event that is due, if any
+export function dueFollowUpEvent(state: GameState): Extract<ScheduledItem, { kind: "event" }> | undefined {
+  const now = state.stats.month;
+  return state.scheduled
+    .filter((s): s is Extract<ScheduledItem, { kind: "event" }> => s.kind === "event" && s.dueMonth <= now)
+    .sort((a, b) => a.dueMonth - b.dueMonth)[0];
+}
@@ -0,0 +1,103 @@
+// conditions.ts
+// Declarative, JSON-serializable conditions over GameStats. Built-in packs,
+// AI-generated packs and saves all use the same shape and this one interpreter.
+
+import type { GameStats } from "./gameState";
+
+export type ConditionStat = keyof GameStats;
+export type ComparisonOperator = "<" | "<=" | ">" | ">=" | "==" | "!=";
+
+export type Condition =
+  // stat <op> value, e.g. { stat: "savings", operator: ">=", value: 1000 }
+  | { stat: ConditionStat; operator: ComparisonOperator; value: number }
+  // stat <op> other stat (times scale), e.g. debt > 4 * income
+  | { stat: ConditionStat; operator: ComparisonOperator; compareTo: ConditionStat; scale?: number }
+  // inclusive month window; either bound may be omitted
+  | { month: { min?: number; max?: number } }
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition };
+
+const STATS: readonly ConditionStat[] = [
+  "month",
+  "budget",
+  "impulse",
+  "savings",
+  "debt",
+  "income",
+  "fixedExpenses",
+  "happiness",
+  "stress",
+];
+const OPERATORS: readonly ComparisonOperator[] = ["<", "<=", ">", ">=", "==", "!="];
+
+export function compare(left: number, operator: ComparisonOperator, right: number): boolean {
+  switch (operator) {
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+    default:
+      return false;
+  }
+}
+
+export function evaluateCondition(cond: Condition, stats: GameStats): boolean {
+  if ("all" in cond) return cond.all.every((c) => evaluateCondition(c, stats));
+  if ("any" in cond) return cond.any.some((c) => evaluateCondition(c, stats));
+  if ("not" in cond) return !evaluateCondition(cond.not, stats);
+  if ("month" in cond) {
+    const { min = -Infinity, max = Infinity } = cond.month;
+    return stats.month >= min && stats.month <= max;
+  }
+  if ("compareTo" in cond) {
+    return compare(stats[cond.stat], cond.operator, stats[cond.compareTo] * (cond.scale ?? 1));
+  }
+  return compare(stats[cond.stat], cond.operator, cond.value);
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+const isStat = (v: unknown): v is ConditionStat => STATS.includes(v as ConditionStat);
+const isOperator = (v: unknown): v is ComparisonOperator => OPERATORS.includes(v as ComparisonOperator);
+
+// Validate untrusted JSON (AI packs, imports, saves). Returns null when malformed.
+export function parseCondition(value: unknown): Condition | null {
+  if (!isRecord(value)) return null;
+
+  if ("all" in value || "any" in value) {
+    const key = "all" in value ? "all" : "any";
+    const items = value[key];
+    if (!Array.isArray(items)) return null;
+    const parsed = items.map(parseCondition);
+    if (parsed.some((c) => c === null)) return null;
+    return key === "all" ? { all: parsed as Condition[] } : { any: parsed as Condition[] };
+  }
+  if ("not" in value) {
+    const inner = parseCondition(value.not);
+    return inner ? { not: inner } : null;
+  }
+  if ("month" in value) {
+    const range = value.month;
+    if (!isRecord(range)) return null;
+    if (range.min !== undefined && !isNumber(range.min)) return null;
+    if (range.max !== undefined && !isNumber(range.max)) return null;
+    return { month: { min: range.min as number | undefined, max: range.max as number | undefined } };
+  }
+  if (!isStat(value.stat) || !isOperator(value.operator)) return null;
+  if ("compareTo" in value) {
+    if (!isStat(value.compareTo)) return null;
+    if (value.scale !== undefined && !isNumber(value.scale)) return null;
+    return { stat: value.stat, operator: value.operator, compareTo: value.compareTo, scale: value.scale as number | undefined };
+  }
+  if (!isNumber(value.value)) return null;
+  return { stat: value.stat, operator: value.operator, value: value.value };
+}
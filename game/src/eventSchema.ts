@@ -0,0 +1,155 @@
+// eventSchema.ts
+// Runtime validation for event packs that arrive as JSON (imports, AI output, saved packs).
+
+import type { EventChoice, EventEffect, GameEvent } from "./events";
+import type { FollowUp } from "./chains";
+import type { LedgerAction, Obligation } from "./ledger";
+import { ACCOUNT_IDS, type Transfer } from "./accounts";
+import { parseCondition } from "./conditions";
+
+export type PackValidation = {
+  events: GameEvent[]; // the events that passed, cleaned
+  problems: string[]; // one line per dropped event or field
+};
+
+const TAGS = ["career", "lifestyle", "social", "finance", "risk"];
+const EFFECT_KEYS = ["budget", "impulse", "savings", "debt", "income", "fixedExpenses", "happiness", "stress"];
+const OBLIGATION_KINDS = ["loan", "installment", "subscription", "credit"];
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+const isString = (v: unknown): v is string => typeof v === "string" && v.trim().length > 0;
+
+export function parseEffects(value: unknown): EventEffect | null {
+  if (!isRecord(value)) return null;
+  const effects: EventEffect = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (!EFFECT_KEYS.includes(key) || !isNumber(v)) return null;
+    effects[key as keyof EventEffect] = v;
+  }
+  return effects;
+}
+
+function parseFollowUp(value: unknown): FollowUp | null {
+  if (!isRecord(value) || !isNumber(value.delay)) return null;
+  if (value.chance !== undefined && !isNumber(value.chance)) return null;
+  const chance = value.chance as number | undefined;
+  if (value.kind === "event" && isString(value.eventId)) {
+    return { kind: "event", eventId: value.eventId, delay: value.delay, chance };
+  }
+  const effects = parseEffects(value.effects);
+  if (value.kind === "effects" && effects && isString(value.log)) {
+    return { kind: "effects", effects, log: value.log, delay: value.delay, chance };
+  }
+  return null;
+}
+
+function parseLedgerAction(value: unknown): LedgerAction | null {
+  if (!isRecord(value)) return null;
+  if (value.type === "add") {
+    const o = value.obligation;
+    if (
+      isRecord(o) &&
+      isString(o.id) &&
+      isString(o.name) &&
+      OBLIGATION_KINDS.includes(o.kind as string) &&
+      isNumber(o.balance) &&
+      isNumber(o.apr) &&
+      isNumber(o.minimumPayment) &&
+      (o.endMonth === undefined || isNumber(o.endMonth))
+    ) {
+      return { type: "add", obligation: o as Obligation };
+    }
+    return null;
+  }
+  if (value.type === "refinance" && isString(value.id)) {
+    if (value.apr !== undefined && !isNumber(value.apr)) return null;
+    if (value.minimumPayment !== undefined && !isNumber(value.minimumPayment)) return null;
+    return { type: "refinance", id: value.id, apr: value.apr as number | undefined, minimumPayment: value.minimumPayment as number | undefined };
+  }
+  if (value.type === "cancel" && isString(value.id)) return { type: "cancel", id: value.id };
+  return null;
+}
+
+function parseTransfer(value: unknown): Transfer | null {
+  if (!isRecord(value) || !isNumber(value.amount)) return null;
+  const from = value.from as Transfer["from"];
+  const to = value.to as Transfer["to"];
+  if (!ACCOUNT_IDS.includes(from) || !ACCOUNT_IDS.includes(to)) return null;
+  return { from, to, amount: value.amount };
+}
+
+// Parse an optional list field; null means at least one entry was unreadable
+function parseList<T>(value: unknown, parse: (v: unknown) => T | null): T[] | undefined | null {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) return null;
+  const parsed = value.map(parse);
+  return parsed.some((x) => x === null) ? null : (parsed as T[]);
+}
+
+function parseChoice(value: unknown): EventChoice | string {
+  if (!isRecord(value)) return "choice is not an object";
+  if (!isString(value.id) || !isString(value.label) || !isString(value.log)) return "choice needs id, label and log";
+  const effects = parseEffects(value.effects ?? {});
+  if (!effects) return `choice "${value.id}" has unreadable effects`;
+  const followUps = parseList(value.followUps, parseFollowUp);
+  const ledger = parseList(value.ledger, parseLedgerAction);
+  const transfers = parseList(value.transfers, parseTransfer);
+  if (followUps === null || ledger === null || transfers === null) return `choice "${value.id}" has unreadable follow-ups, ledger or transfers`;
+  return {
+    id: value.id,
+    label: value.label,
+    effects,
+    log: value.log,
+    ...(isString(value.explain) ? { explain: value.explain } : {}),
+    ...(followUps ? { followUps } : {}),
+    ...(ledger ? { ledger } : {}),
+    ...(transfers ? { transfers } : {}),
+  };
+}
+
+export function parseEvent(value: unknown): GameEvent | string {
+  if (!isRecord(value)) return "event is not an object";
+  const name = isString(value.id) ? `event "${value.id}"` : "event";
+  if (!isString(value.id) || !isString(value.title) || !isString(value.description)) return `${name} needs id, title and description`;
+  if (!TAGS.includes(value.tag as string)) return `${name} has unknown tag "${String(value.tag)}"`;
+  if (!Array.isArray(value.choices) || value.choices.length === 0) return `${name} has no choices`;
+  const choices = value.choices.map(parseChoice);
+  const bad = choices.find((c): c is string => typeof c === "string");
+  if (bad) return `${name}: ${bad}`;
+  const condition = value.condition === undefined ? undefined : parseCondition(value.condition);
+  if (condition === null) return `${name} has an unreadable condition`;
+  if (value.weight !== undefined && !isNumber(value.weight)) return `${name} has a non-numeric weight`;
+  if (value.cooldown !== undefined && !isNumber(value.cooldown)) return `${name} has a non-numeric cooldown`;
+  return {
+    id: value.id,
+    title: value.title,
+    description: value.description,
+    tag: value.tag as GameEvent["tag"],
+    choices: choices as EventChoice[],
+    ...(condition ? { condition } : {}),
+    ...(isNumber(value.weight) ? { weight: value.weight } : {}),
+    ...(isNumber(value.cooldown) ? { cooldown: value.cooldown } : {}),
+    ...(value.followUpOnly === true ? { followUpOnly: true } : {}),
+  };
+}
+
+// Keep every readable event; duplicates by id keep the first occurrence
+export function validateEventPack(value: unknown): PackValidation {
+  if (!Array.isArray(value)) return { events: [], problems: ["events must be a list"] };
+  const events: GameEvent[] = [];
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  value.forEach((raw, i) => {
+    const parsed = parseEvent(raw);
+    if (typeof parsed === "string") {
+      problems.push(`#${i + 1}: ${parsed}`);
+    } else if (seen.has(parsed.id)) {
+      problems.push(`#${i + 1}: duplicate id "${parsed.id}"`);
+    } else {
+      seen.add(parsed.id);
+      events.push(parsed);
+    }
+  });
+  return { events, problems };
+}
@@ -1,6 +1,12 @@
 // events.ts
 
 import type { GameStats, GameState, ScenarioId } from "./gameState";
+import { createRng, type Rng } from "./rng";
+import { scenarioDefinition } from "./scenarioRegistry";
+import { evaluateCondition, parseCondition, type Condition } from "./conditions";
+import { dueFollowUpEvent, type FollowUp } from "./chains";
+import type { LedgerAction } from "./ledger";
+import type { Transfer } from "./accounts";
 
 export type EventEffect = Partial<{
   budget: number;
@@ -19,6 +25,9 @@ export type EventChoice = {
   effects: EventEffect;
   log: string;
   explain?: string; // natural-language explanation shown after confirm
+  followUps?: FollowUp[]; // later events or deferred effects this choice sets in motion
+  ledger?: LedgerAction[]; // add, refinance or cancel specific obligations
+  transfers?: Transfer[]; // move money between accounts (total savings unchanged)
 };
 
 export type GameEvent = {
@@ -27,14 +36,31 @@ export type GameEvent = {
   description: string;
   tag: "career" | "lifestyle" | "social" | "finance" | "risk";
   choices: EventChoice[];
-  condition?: (stats: GameStats) => boolean;
+  condition?: Condition; // declarative so packs and saves stay serializable
   weight?: number; // base chance relative to others
   cooldown?: number; // months before this event can repeat
+  followUpOnly?: boolean; // only reachable as a follow-up, never drawn at random
+};
+
+// Shared gate for "pay down debt" events
+const canPayDebt: Condition = {
+  all: [
+    { stat: "savings", operator: ">=", value: 1000 },
+    { stat: "debt", operator: ">", value: 0 },
+  ],
 };
 
 // Custom events pack (generated at runtime)
 export let customEvents: GameEvent[] = [];
 export function setCustomEvents(events: GameEvent[]) {
+  // Generated conditions arrive as untrusted JSON: a gated event whose gate
+  // cannot be read is dropped rather than shown ungated
+  const gated = events.flatMap((ev) => {
+    if (ev.condition === undefined) return [ev];
+    const condition = parseCondition(ev.condition);
+    return condition ? [{ ...ev, condition }] : [];
+  });
+
   // Always inject debt payment and fixed expense reduction events
   const debtEvent: GameEvent = {
     id: "pay-debt-custom",
@@ -42,7 +68,7 @@ export function setCustomEvents(events: GameEvent[]) {
     description: "You have enough savings to pay down your debt.",
     tag: "finance",
     cooldown: 2,
-    condition: (s) => s.savings >= 1000 && s.debt > 0,
+    condition: canPayDebt,
     choices: [
       {
         id: "pay-500",
@@ -97,325 +123,24 @@ export function setCustomEvents(events: GameEvent[]) {
       }
     ]
   };
-  customEvents = [...events, debtEvent, expenseEvent];
+  customEvents = [...gated, debtEvent, expenseEvent];
 }
 
-// Classic pack
-const classicEvents: GameEvent[] = [
-  {
-    id: "pay-debt",
-    title: "Debt Repayment Opportunity",
-    description: "You have enough savings to pay down your debt.",
-    tag: "finance",
-    cooldown: 2,
-    condition: (s) => s.savings >= 1000 && s.debt > 0,
-    choices: [
-      {
-        id: "pay-500",
-        label: "Pay $500 from savings to reduce debt",
-        effects: { savings: -500, debt: -500, stress: -2, happiness: 2 },
-        log: "You made an extra payment and reduced your debt."
-      },
-      {
-        id: "pay-1000",
-        label: "Pay $1000 from savings to reduce debt",
-        effects: { savings: -1000, debt: -1000, stress: -4, happiness: 4 },
-        log: "You made a large payment and significantly reduced your debt."
-      },
-      {
-        id: "skip",
-        label: "Skip payment (no change)",
-        effects: {},
-        log: "You skipped a payment this month."
-      }
-    ]
-  },
-  {
-    id: "negotiate-bills",
-    title: "Negotiate Bills",
-    description: "You have a chance to negotiate your recurring bills or switch to a cheaper plan.",
-    tag: "finance",
-    cooldown: 4,
-    choices: [
-      {
-        id: "negotiate",
-        label: "Negotiate and cut fixed expenses by $100",
-        effects: { fixedExpenses: -100, stress: 1, happiness: 1 },
-        log: "You successfully negotiated your bills and reduced your fixed expenses."
-      },
-      {
-        id: "switch",
-        label: "Switch to a cheaper plan (cut $200, -2 happiness)",
-        effects: { fixedExpenses: -200, happiness: -2 },
-        log: "You switched to a cheaper plan and saved money, but lost some perks."
-      },
-      {
-        id: "skip",
-        label: "Do nothing",
-        effects: {},
-        log: "You decided not to change your bills this month."
-      }
-    ]
-  },
-  {
-    id: "side-gig",
-    title: "Side Gig Opportunity",
-    description: "A friend offers you a weekend side gig. It pays, but you'll have less free time.",
-    tag: "career",
-    cooldown: 3,
-    choices: [
-      { id: "accept", label: "Accept the side gig (+$200, +5 stress)", effects: { savings: 200, stress: 5 }, log: "You worked the side gig and earned extra cash, but it was tiring.", explain: "Taking the gig brings in extra money but costs time and energy, increasing stress." },
-      { id: "decline", label: "Decline (no change)", effects: {}, log: "You declined the side gig and kept your free time.", explain: "You preserve your free time and avoid extra stress, but miss out on extra income." },
-    ],
-  },
-  {
-    id: "impulse-buy",
-    title: "Impulse Buy Temptation",
-    description: "You see a gadget on sale that you don't really need.",
-    tag: "risk",
-    cooldown: 2,
-    choices: [
-      { id: "buy", label: "Buy it (-$100, +10 happiness, +10 impulse)", effects: { savings: -100, happiness: 10, impulse: 10 }, log: "You bought the gadget. It's fun, but your wallet is lighter.", explain: "Purchasing gives a short-term happiness boost but reduces savings and reinforces impulsive spending." },
-      { id: "skip", label: "Skip (-5 impulse, +2 stress)", effects: { impulse: -5, stress: 2 }, log: "You resisted the urge, but it took some willpower.", explain: "Resisting builds discipline (lower impulse) but costs a bit of willpower, adding slight stress." },
-    ],
-    condition: (s) => s.savings > 100,
-  },
-  {
-    id: "unexpected-bill",
-    title: "Unexpected Bill",
-    description: "A surprise medical bill arrives.",
-    tag: "finance",
-    cooldown: 4,
-    choices: [
-      { id: "pay", label: "Pay from savings (-$300, +5 stress)", effects: { savings: -300, stress: 5 }, log: "You paid the bill from your savings.", explain: "Covering the bill immediately reduces savings and feels stressful in the short term." },
-      { id: "defer", label: "Defer payment (+$300 debt, +10 stress)", effects: { debt: 300, stress: 10 }, log: "You deferred the bill, but your debt increased.", explain: "Delaying payment avoids a savings hit now, but raises your debt and worry about future costs." },
-    ],
-  },
-  {
-    id: "rent-change",
-    title: "Housing Decision",
-    description: "Your lease is up. You can upgrade, keep your current place, or find a roommate.",
-    tag: "lifestyle",
-    cooldown: 6,
-    choices: [
-      { id: "upgrade", label: "Upgrade apartment (+$400 fixed expenses, +8 happiness)", effects: { fixedExpenses: 400, happiness: 8 }, log: "You upgraded your apartment. Nicer place, higher costs.", explain: "A nicer home lifts mood but increases monthly costs, tightening your budget." },
-      { id: "same", label: "Stay put (no change)", effects: {}, log: "You renewed your current lease.", explain: "Sticking with your current place keeps both costs and comfort unchanged." },
-      { id: "roommate", label: "Get a roommate (-$300 fixed expenses, -5 happiness)", effects: { fixedExpenses: -300, happiness: -5 }, log: "You found a roommate and cut expenses, but it's less private.", explain: "Sharing housing lowers monthly costs, but reduced privacy may lower happiness." },
-    ],
-  },
-  {
-    id: "annual-raise",
-    title: "Performance Review",
-    description: "Your manager offers more responsibilities for a raise.",
-    tag: "career",
-    cooldown: 6,
-    choices: [
-      { id: "accept", label: "Accept (+$200 income, +5 stress)", effects: { income: 200, stress: 5 }, log: "You took on more responsibilities and got a raise.", explain: "Greater responsibility brings more pay but also more pressure and stress." },
-      { id: "decline", label: "Decline (no change)", effects: {}, log: "You kept your current role.", explain: "You avoid added stress but forgo a pay increase, keeping your situation stable." },
-    ],
-  },
-];
-
-// Student pack
-const studentEvents: GameEvent[] = [
-  {
-    id: "pay-debt-student",
-    title: "Student Loan Payment Opportunity",
-    description: "You have enough savings to pay down your student loan.",
-    tag: "finance",
-    cooldown: 2,
-    condition: (s) => s.savings >= 1000 && s.debt > 0,
-    choices: [
-      {
-        id: "pay-500",
-        label: "Pay $500 from savings to reduce debt",
-        effects: { savings: -500, debt: -500, stress: -2, happiness: 2 },
-        log: "You made an extra payment and reduced your student loan.",
-        explain: "Paying extra reduces your loan balance sooner and eases stress, but uses savings."
-      },
-      {
-        id: "pay-1000",
-        label: "Pay $1000 from savings to reduce debt",
-        effects: { savings: -1000, debt: -1000, stress: -4, happiness: 4 },
-        log: "You made a large payment and significantly reduced your student loan.",
-        explain: "A larger payment lowers your loan faster, easing stress more, but costs more savings now."
-      },
-      {
-        id: "skip",
-        label: "Skip payment (no change)",
-        effects: {},
-        log: "You skipped a payment this month.",
-        explain: "You keep cash on hand, but your loan balance doesn’t go down."
-      }
-    ]
-  },
-  {
-    id: "find-roommate",
-    title: "Find a Roommate",
-    description: "You consider finding a roommate to help cut down your rent.",
-    tag: "lifestyle",
-    cooldown: 6,
-    choices: [
-      {
-        id: "find",
-        label: "Find a roommate (cut $200 fixed expenses, -2 happiness)",
-        effects: { fixedExpenses: -200, happiness: -2, stress: 1 },
-        log: "You found a roommate and reduced your rent, but lost some privacy.",
-        explain: "Splitting rent lowers monthly bills, but less privacy can reduce happiness a bit."
-      },
-      {
-        id: "skip",
-        label: "Stay solo (no change)",
-        effects: {},
-        log: "You decided to keep your place to yourself.",
-        explain: "You keep your privacy and routine, but your rent stays the same."
-      }
-    ]
-  },
-  {
-    id: "textbooks",
-    title: "Textbooks Needed",
-    description: "A new semester starts and you need textbooks.",
-    tag: "finance",
-    cooldown: 4,
-    choices: [
-      { id: "buy-new", label: "Buy new (-$250)", effects: { savings: -250 }, log: "You bought new textbooks.", explain: "New books are convenient but cost more, reducing savings." },
-      { id: "buy-used", label: "Buy used (-$120, +2 stress)", effects: { savings: -120, stress: 2 }, log: "You hunted for used textbooks and saved money.", explain: "Used books cost less but take effort to find, adding a bit of stress." },
-      { id: "borrow", label: "Borrow from library (0$, +5 stress)", effects: { stress: 5 }, log: "You borrowed textbooks and deal with limited time slots.", explain: "Borrowing saves money but the limited access can be stressful." },
-    ],
-  },
-  {
-    id: "campus-job",
-    title: "Campus Job Opening",
-    description: "The library offers a part-time position.",
-    tag: "career",
-    cooldown: 3,
-    choices: [
-      { id: "apply", label: "Apply (+$150 savings, +5 stress)", effects: { savings: 150, stress: 5 }, log: "You got the campus job and earn a little extra.", explain: "Working adds income but takes time away, increasing stress." },
-      { id: "skip", label: "Focus on studies (+2 happiness)", effects: { happiness: 2 }, log: "You focused on studies instead.", explain: "Focusing on studies preserves energy and can lift mood, but you miss out on extra income." },
-    ],
-  },
-  {
-    id: "roommate-conflict",
-    title: "Roommate Conflict",
-    description: "Your roommate is late on rent.",
-    tag: "lifestyle",
-    cooldown: 5,
-    choices: [
-      { id: "cover", label: "Cover their part this month (-$250, +5 stress)", effects: { savings: -250, stress: 5 }, log: "You covered the rent and will talk later.", explain: "Helping out strains your savings and adds stress, but keeps the household stable this month." },
-      { id: "landlord", label: "Talk to landlord (+5 stress, potential future change)", effects: { stress: 5 }, log: "You informed the landlord.", explain: "Addressing the issue can be stressful now but may lead to a longer-term solution." },
-    ],
-  },
-];
-
-// Startup pack
-const startupEvents: GameEvent[] = [
-  {
-    id: "pay-debt-startup",
-    title: "Business Loan Payment Opportunity",
-    description: "You have enough savings to pay down your business loan.",
-    tag: "finance",
-    cooldown: 2,
-    condition: (s) => s.savings >= 1000 && s.debt > 0,
-    choices: [
-      {
-        id: "pay-500",
-        label: "Pay $500 from savings to reduce debt",
-        effects: { savings: -500, debt: -500, stress: -2, happiness: 2 },
-        log: "You made an extra payment and reduced your business loan.",
-        explain: "Paying down principal reduces future interest and can ease stress a bit."
-      },
-      {
-        id: "pay-1000",
-        label: "Pay $1000 from savings to reduce debt",
-        effects: { savings: -1000, debt: -1000, stress: -4, happiness: 4 },
-        log: "You made a large payment and significantly reduced your business loan.",
-        explain: "A bigger payment accelerates debt reduction and relief, using more cash now."
-      },
-      {
-        id: "skip",
-        label: "Skip payment (no change)",
-        effects: {},
-        log: "You skipped a payment this month.",
-        explain: "You retain liquidity this month, but the loan balance remains."
-      }
-    ]
-  },
-  {
-    id: "cut-office-costs",
-    title: "Cut Office Costs",
-    description: "You consider moving to a smaller office or switching to remote work to cut fixed expenses.",
-    tag: "lifestyle",
-    cooldown: 6,
-    choices: [
-      {
-        id: "move-remote",
-        label: "Switch to remote work (cut $300 fixed expenses, -2 happiness)",
-        effects: { fixedExpenses: -300, happiness: -2, stress: 1 },
-        log: "You switched to remote work and reduced your office costs.",
-        explain: "Cutting office overhead improves runway, though being away from an office can reduce morale for some."
-      },
-      {
-        id: "downsize",
-        label: "Move to a smaller office (cut $150 fixed expenses, -1 happiness)",
-        effects: { fixedExpenses: -150, happiness: -1 },
-        log: "You moved to a smaller office and saved on rent.",
-        explain: "A smaller space saves money but can feel like a downgrade, nudging happiness down slightly."
-      },
-      {
-        id: "skip",
-        label: "Keep current office (no change)",
-        effects: {},
-        log: "You kept your current office setup.",
-        explain: "No immediate changes—costs and comfort remain as they are."
-      }
-    ]
-  },
-  {
-    id: "pitch-trip",
-    title: "Investor Pitch Trip",
-    description: "Travel to pitch investors.",
-    tag: "career",
-    cooldown: 4,
-    choices: [
-      { id: "go", label: "Go (-$300 savings, +10 stress, chance for future raise)", effects: { savings: -300, stress: 10 }, log: "You traveled and pitched the startup.", explain: "Travel costs money and energy now, but could open doors that help later." },
-      { id: "remote", label: "Pitch remote (0$, -2 happiness)", effects: { happiness: -2 }, log: "You pitched remotely to save money.", explain: "Saving cash by staying remote may feel less exciting, slightly lowering happiness." },
-    ],
-  },
-  {
-    id: "equity-vs-salary",
-    title: "Equity vs Salary",
-    description: "Your startup offers more equity for less salary.",
-    tag: "finance",
-    cooldown: 6,
-    choices: [
-      { id: "equity", label: "Take equity (-$200 income, +5 happiness)", effects: { income: -200, happiness: 5 }, log: "You chose equity; money is tight now.", explain: "Trading salary for equity can feel motivating but reduces near-term income." },
-      { id: "salary", label: "Keep salary (+$0)", effects: {}, log: "You kept your current compensation.", explain: "Sticking with salary maintains predictable pay without extra risk." },
-    ],
-  },
-  {
-    id: "coworking",
-    title: "Coworking Space",
-    description: "Rent a desk in a coworking space.",
-    tag: "lifestyle",
-    cooldown: 6,
-    choices: [
-      { id: "rent", label: "Rent (+$200 fixed expenses, +3 happiness)", effects: { fixedExpenses: 200, happiness: 3 }, log: "You rented a desk; productivity improved.", explain: "A workspace can boost morale and focus, but raises monthly costs." },
-      { id: "home", label: "Work from home (no change)", effects: {}, log: "You kept working from home.", explain: "You keep expenses low and flexibility high by staying at home." },
-    ],
-  },
-];
+// The generated part of the custom pack, without the events injected above
+export function customPackEvents(): GameEvent[] {
+  return customEvents.filter((ev) => ev.id !== "pay-debt-custom" && ev.id !== "cut-expense-custom");
+}
 
-export const scenarioEvents: Record<ScenarioId, GameEvent[]> = {
-  classic: classicEvents,
-  student: studentEvents,
-  startup: startupEvents,
-  custom: customEvents,
-};
+// The player has seen most of the generated events; time to ask for more
+export function isPackStale(state: GameState, threshold = 0.75): boolean {
+  const pack = customPackEvents();
+  if (state.scenarioId !== "custom" || pack.length === 0) return false;
+  return pack.filter((ev) => state.lastSeen[ev.id] !== undefined).length >= pack.length * threshold;
+}
 
-function weightedRandom<T>(items: { item: T; weight: number }[]): T {
+function weightedRandom<T>(items: { item: T; weight: number }[], rng: Rng): T {
   const total = items.reduce((s, x) => s + x.weight, 0);
-  let r = Math.random() * total;
+  let r = rng.next() * total;
   for (const x of items) {
     if (r < x.weight) return x.item;
     r -= x.weight;
@@ -423,16 +148,42 @@ function weightedRandom<T>(items: { item: T; weight: number }[]): T {
   return items[items.length - 1].item; // fallback
 }
 
+function isEligible(ev: GameEvent, stats: GameStats): boolean {
+  return !ev.condition || evaluateCondition(ev.condition, stats);
+}
+
+// Built-in scenarios bring their pack; an empty one (a custom run before generation) plays classic
+const classicEvents = () => scenarioDefinition("classic").events;
+
+function packFor(scenarioId: ScenarioId): GameEvent[] {
+  const sourcePack = scenarioId === "custom" ? customEvents : scenarioDefinition(scenarioId).events;
+  return sourcePack.length > 0 ? sourcePack : classicEvents();
+}
+
+// An event of the scenario's pack by id, falling back to classic
+export function findEvent(scenarioId: ScenarioId, id: string): GameEvent | undefined {
+  return packFor(scenarioId).find((ev) => ev.id === id) ?? classicEvents().find((ev) => ev.id === id);
+}
+
+// Events that may be drawn at random (follow-up-only events are excluded)
+const isRandom = (ev: GameEvent) => !ev.followUpOnly;
+
 // Select a random event with cooldowns and tag variety, from scenario pack
-export function pickEvent(state: GameState): GameEvent {
+export function pickEvent(state: GameState, rng: Rng): GameEvent {
   const { stats, lastEventId, lastTag, lastSeen, scenarioId } = state;
-  const sourcePack = scenarioId === "custom" ? customEvents : (scenarioEvents[scenarioId] ?? classicEvents);
-  const pack = sourcePack.length > 0 ? sourcePack : classicEvents;
+  const pack = packFor(scenarioId).filter(isRandom);
   const now = stats.month;
 
+  // A follow-up that has come due takes precedence over a random draw
+  const followUp = dueFollowUpEvent(state);
+  if (followUp) {
+    const ev = findEvent(scenarioId, followUp.eventId);
+    if (ev && isEligible(ev, stats)) return ev;
+  }
+
   const candidates = pack.filter((ev) => {
     if (ev.id === lastEventId) return false; // avoid immediate repeat
-    if (ev.condition && !ev.condition(stats)) return false;
+    if (!isEligible(ev, stats)) return false;
     const last = lastSeen?.[ev.id] ?? -Infinity;
     const cd = ev.cooldown ?? 0;
     if (now - last < cd) return false; // still on cooldown
@@ -446,16 +197,43 @@ export function pickEvent(state: GameState): GameEvent {
   });
 
   if (weighted.length === 0) {
-    const fallback = pack.filter((ev) => !ev.condition || ev.condition(stats));
+    const fallback = pack.filter((ev) => isEligible(ev, stats));
     if (fallback.length > 0) {
-      return fallback[Math.floor(Math.random() * fallback.length)];
+      return fallback[rng.int(fallback.length)];
     }
     // Last resort: use classic pack to ensure we always return something
-    const classicFallback = classicEvents.filter((ev) => !ev.condition || ev.condition(stats));
-    return classicFallback[Math.floor(Math.random() * classicFallback.length)] || classicEvents[0];
+    const classicFallback = classicEvents().filter((ev) => isRandom(ev) && isEligible(ev, stats));
+    return classicFallback[rng.int(classicFallback.length)] || classicEvents()[0];
   }
 
-  return weightedRandom(weighted);
+  return weightedRandom(weighted, rng);
+}
+
+// Draw the next event and record it (and the advanced RNG) on the state
+export function withNextEvent(state: GameState): GameState {
+  const now = state.stats.month;
+  // Due follow-ups whose event is missing or no longer applies are dropped
+  const scheduled = state.scheduled.filter((s) => {
+    if (s.kind !== "event" || s.dueMonth > now) return true;
+    const ev = findEvent(state.scenarioId, s.eventId);
+    return !!ev && isEligible(ev, state.stats);
+  });
+  const pruned: GameState = { ...state, scheduled };
+  const rng = createRng(state.rng);
+  const ev = pickEvent(pruned, rng);
+  const followUp = dueFollowUpEvent(pruned);
+  return {
+    ...pruned,
+    currentEventId: ev.id,
+    scheduled: followUp?.eventId === ev.id ? scheduled.filter((s) => s !== followUp) : scheduled,
+    rng: rng.state(),
+  };
+}
+
+// Resolve the event currently on screen for a (possibly reloaded) state
+export function currentEvent(state: GameState): GameEvent | undefined {
+  if (!state.currentEventId) return undefined;
+  return findEvent(state.scenarioId, state.currentEventId);
 }
 
 // Apply effects to stats
@@ -1,68 +1,141 @@
 // finance.ts
 import type { GameStats } from "./gameState";
+import type { Rng } from "./rng";
+import type { LogLine } from "./gameLog";
+import { amortize, ledgerDebt, reconcileDebt, type Obligation } from "./ledger";
+import {
+  accountsTotal,
+  defaultDrainOrder,
+  growAccounts,
+  openingAccounts,
+  reconcileSavings,
+  withdraw,
+  type AccountId,
+  type Accounts,
+} from "./accounts";
+
+// The player's books beyond the aggregate stats
+export type Holdings = {
+  obligations?: Obligation[];
+  accounts?: Accounts;
+  drainOrder?: AccountId[]; // which accounts cover a deficit first
+};
+
+// How a scenario's months close differently: raises, rising costs, background stress
+export type TickModifiers = {
+  incomeGrowth?: number; // fraction of income added each month
+  expenseGrowth?: number; // fraction added to fixed expenses each month
+  stressPerMonth?: number; // points added to stress each month (negative to relieve it)
+  happinessPerMonth?: number;
+  impulseDecay?: number; // points impulse settles by each month (default 1)
+};
+
+// Where the month's money went, in dollars
+export type TickBreakdown = {
+  impulseSpend: number;
+  payments: number; // loan, installment and subscription payments
+  interest: number; // accrued on obligations
+  cashFlow: number; // income minus fixed expenses, impulse spending and payments
+  newDebt: number; // the part of a deficit the accounts could not cover
+  growth: number; // returns on savings and investments
+  incomeChange: number;
+  expenseChange: number;
+};
 
 export type TickResult = {
   stats: GameStats;
-  logs: string[];
+  logs: LogLine[];
+  obligations: Obligation[];
+  accounts: Accounts;
+  missedPayment: boolean; // obligation payments the accounts could not cover went on the card
+  breakdown: TickBreakdown;
 };
 
 const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
 
-export function endOfPeriodTick(prev: GameStats): TickResult {
-  const logs: string[] = [];
+export function endOfPeriodTick(prev: GameStats, rng: Rng, holdings: Holdings = {}, modifiers: TickModifiers = {}): TickResult {
+  const logs: LogLine[] = [];
 
   // Impulse-driven variable spending
   const impulseProb = Math.min(0.4, prev.impulse / 100 * 0.4); // up to 40% chance
   let variableSpend = 0;
-  if (Math.random() < impulseProb) {
+  if (rng.next() < impulseProb) {
     const base = 10;
     const swing = prev.impulse * 2; // up to ~200 when impulse=100
-    variableSpend = Math.round(base + Math.random() * swing);
-    logs.push(`Impulse spending this period: -$${variableSpend}`);
+    variableSpend = Math.round(base + rng.next() * swing);
+    logs.push({ category: "impulse", text: `Impulse spending this period: -$${variableSpend}`, deltas: { savings: -variableSpend } });
   }
 
-  const debtInterestRate = 0.01; // 1% monthly
-  const savingsInterestRate = 0.002; // 0.2% monthly
+  const drainOrder = holdings.drainOrder ?? defaultDrainOrder;
+
+  // Each obligation accrues its own interest and takes its payment out of cash flow
+  const ledger = amortize(reconcileDebt(holdings.obligations ?? [], prev.debt), prev.month);
+  logs.push(...ledger.logs);
+  let obligations = ledger.obligations;
 
-  const net = prev.income - prev.fixedExpenses - variableSpend;
-  let savings = prev.savings;
-  let debt = prev.debt;
+  // Negative savings (e.g. from older saves) count as part of this month's deficit
+  const opening = reconcileSavings(holdings.accounts ?? openingAccounts(prev.savings), prev.savings, drainOrder);
+  let accounts = opening.accounts;
+
+  const net = prev.income - prev.fixedExpenses - variableSpend - ledger.payments;
 
   if (net >= 0) {
-    savings += net;
-    logs.push(`Positive cash flow: +$${net} to savings`);
-  } else {
-    const deficit = -net;
-    if (savings >= deficit) {
-      savings -= deficit;
-      logs.push(`Covered deficit from savings: -$${deficit}`);
+    accounts = { ...accounts, emergency: accounts.emergency + net };
+    logs.push({ category: "cashflow", text: `Positive cash flow: +$${net} to savings`, deltas: { savings: net } });
+  }
+  const deficit = Math.max(0, -net) + opening.shortfall;
+  let missedPayment = false;
+  let newDebt = 0;
+  if (deficit > 0) {
+    const drained = withdraw(accounts, deficit, drainOrder);
+    accounts = drained.accounts;
+    if (drained.shortfall === 0) {
+      logs.push({ category: "cashflow", text: `Covered deficit from savings: -$${deficit}`, deltas: { savings: -deficit } });
     } else {
-      const newDebt = deficit - savings;
-      savings = 0;
-      debt += newDebt;
-      logs.push(`Deficit led to new debt: +$${newDebt}`);
+      obligations = reconcileDebt(obligations, ledgerDebt(obligations) + drained.shortfall);
+      newDebt = drained.shortfall;
+      missedPayment = ledger.payments > 0;
+      logs.push({ category: "cashflow", text: `Deficit led to new debt: +$${drained.shortfall}`, deltas: { debt: drained.shortfall } });
     }
   }
 
-  if (debt > 0) {
-    const interest = Math.round(debt * debtInterestRate);
-    debt += interest;
-    if (interest > 0) logs.push(`Debt interest: +$${interest}`);
-  }
-  if (savings > 0) {
-    const interest = Math.round(savings * savingsInterestRate);
-    savings += interest;
-    if (interest > 0) logs.push(`Savings interest: +$${interest}`);
-  }
+  const debt = ledgerDebt(obligations);
+  const growth = growAccounts(accounts, rng);
+  const grown = accountsTotal(growth.accounts) - accountsTotal(accounts);
+  accounts = growth.accounts;
+  logs.push(...growth.logs);
+  const savings = accountsTotal(accounts);
 
   const budget = prev.income - prev.fixedExpenses; // tracked as a stat for UI/reference
 
   // Mood adjustments
-  const happiness = clamp(prev.happiness + (net >= 0 ? 1 : -2), 0, 100);
-  const stress = clamp(prev.stress + (net >= 0 ? -1 : 3), 0, 100);
+  const happiness = clamp(prev.happiness + (net >= 0 ? 1 : -2) + (modifiers.happinessPerMonth ?? 0), 0, 100);
+  const stress = clamp(prev.stress + (net >= 0 ? -1 : 3) + (modifiers.stressPerMonth ?? 0), 0, 100);
+  const mood = { happiness: happiness - prev.happiness, stress: stress - prev.stress };
+  if (mood.happiness !== 0 || mood.stress !== 0) {
+    const text = [
+      mood.happiness !== 0 && `${mood.happiness > 0 ? "+" : ""}${mood.happiness} happiness`,
+      mood.stress !== 0 && `${mood.stress > 0 ? "+" : ""}${mood.stress} stress`,
+    ].filter(Boolean).join(", ");
+    logs.push({ category: "mood", text: `${net >= 0 ? "A month in the black" : "A month in the red"}: ${text}`, deltas: mood });
+  }
 
   // Slight impulse normalization over time
-  const impulse = clamp(prev.impulse - 1, 0, 100);
+  const impulse = clamp(prev.impulse - (modifiers.impulseDecay ?? 1), 0, 100);
+
+  // The scenario's drift in pay and costs, felt from next month
+  const raise = Math.round(prev.income * (modifiers.incomeGrowth ?? 0));
+  const costRise = Math.round(prev.fixedExpenses * (modifiers.expenseGrowth ?? 0));
+  if (raise !== 0) {
+    logs.push({ category: "income", text: `Income ${raise > 0 ? "rose" : "fell"}: ${raise > 0 ? "+" : "-"}$${Math.abs(raise)}/month`, deltas: { income: raise } });
+  }
+  if (costRise !== 0) {
+    logs.push({
+      category: "expenses",
+      text: `Fixed expenses ${costRise > 0 ? "rose" : "fell"}: ${costRise > 0 ? "+" : "-"}$${Math.abs(costRise)}/month`,
+      deltas: { fixedExpenses: costRise },
+    });
+  }
 
   const next: GameStats = {
     ...prev,
@@ -73,7 +146,20 @@ export function endOfPeriodTick(prev: GameStats): TickResult {
     happiness,
     stress,
     impulse,
+    income: prev.income + raise,
+    fixedExpenses: prev.fixedExpenses + costRise,
+  };
+
+  const breakdown: TickBreakdown = {
+    impulseSpend: variableSpend,
+    payments: ledger.payments,
+    interest: ledger.interest,
+    cashFlow: net,
+    newDebt,
+    growth: grown,
+    incomeChange: raise,
+    expenseChange: costRise,
   };
 
-  return { stats: next, logs };
+  return { stats: next, logs, obligations, accounts, missedPayment, breakdown };
 }
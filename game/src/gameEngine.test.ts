@@ -0,0 +1,60 @@
+// gameEngine.test.ts
+
+import { describe, expect, it } from "vitest";
+import { currentEvent } from "./events";
+import { reduceGame, startGame } from "./gameEngine";
+import { goalFromText } from "./goalParser";
+import type { GameState } from "./gameState";
+
+const profile = { income: 3000, fixedExpenses: 1800, savings: 1000, debt: 4000 };
+const goal = goalFromText("save $5k without missing a payment", profile)!;
+
+// A custom run one choice into its first month
+function chosen(): GameState {
+  const { state } = startGame("custom");
+  return reduceGame(state, { type: "chooseOption", choiceId: currentEvent(state)!.choices[0].id }).state;
+}
+
+describe("setGoal", () => {
+  it("gives the run the goal and its lose rules", () => {
+    const { state, events } = reduceGame(chosen(), { type: "setGoal", goal });
+    expect(state.goalDescription).toBe(goal.description);
+    expect(state.win).toEqual(goal.win);
+    expect(state.lose).toEqual(goal.lose);
+    expect(events).toEqual([{ type: "goalSet", description: goal.description }]);
+  });
+
+  it("survives undo and rewind", () => {
+    const { state } = reduceGame(chosen(), { type: "setGoal", goal });
+    for (const action of [{ type: "undo" }, { type: "rewind", month: 1 }] as const) {
+      const back = reduceGame(state, action).state;
+      expect(back.undoStack).toHaveLength(0);
+      expect(back.goalDescription).toBe(goal.description);
+      expect(back.lose).toEqual(goal.lose);
+    }
+  });
+
+  it("is rejected outside a custom run", () => {
+    const { state } = startGame("classic");
+    const step = reduceGame(state, { type: "setGoal", goal });
+    expect(step.state).toBe(state);
+    expect(step.events[0].type).toBe("actionRejected");
+  });
+});
+
+describe("appendSystemLog", () => {
+  it("adds a system line for the current month, newest first", () => {
+    const before = chosen();
+    const { state } = reduceGame(before, { type: "appendSystemLog", text: "5 new events joined your pack." });
+    expect(state.log[0]).toEqual({ month: 1, source: "system", category: "system", text: "5 new events joined your pack." });
+    expect(state.log.slice(1)).toEqual(before.log);
+  });
+
+  it("keeps undo cutting the log back to the month's start", () => {
+    const start = startGame("custom").state;
+    const noted = reduceGame(chosen(), { type: "appendSystemLog", text: "All 20 AI events have arrived." }).state;
+    const undone = reduceGame(noted, { type: "undo" }).state;
+    expect(undone.log.slice(1)).toEqual(start.log);
+    expect(undone.replay).toEqual([]);
+  });
+});
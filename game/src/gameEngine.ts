@@ -0,0 +1,205 @@
+// gameEngine.ts
+// The rules of a run as one reducer. Every way a game moves forward is an action; each step
+// returns the next state and the domain events it produced. The UI, the headless simulation
+// and any other runner drive the game through here, so turn order lives in one place:
+//   startScenario -> chooseOption -> advanceMonth -> chooseOption -> ...
+//
+// Pure apart from the custom pack, which events.ts holds so the event pickers can read it;
+// loadCustomPack installs it there.
+//
+// Each choice first saves the month's starting state on undoStack, so undo and rewind are
+// just restores. Hardcore runs keep no stack. Every month played is also recorded on
+// replay and timeline, which undo cuts back like the log.
+
+import { createGameState, type GameState, type ScenarioId } from "./gameState";
+import { currentEvent, customEvents, customPackEvents, setCustomEvents, withNextEvent, type GameEvent } from "./events";
+import { checkLose, checkWin, goalFields, type ScenarioGoal } from "./goals";
+import { advanceMonth, resolveChoice } from "./turn";
+import { recordChoice, recordClose } from "./replay";
+import { systemEntry } from "./gameLog";
+import { ACCOUNT_IDS, type AccountId } from "./accounts";
+
+export type GameAction =
+  | { type: "startScenario"; scenarioId: ScenarioId; init?: Partial<GameState> }
+  // a custom run's generated events, whole or topped up; packId is where they are stored
+  | { type: "loadCustomPack"; events: GameEvent[]; packId?: string }
+  // a custom run's goal, when it arrives after play has started
+  | { type: "setGoal"; goal: ScenarioGoal }
+  // a note from outside the simulation, e.g. how a pack download went
+  | { type: "appendSystemLog"; text: string }
+  | { type: "chooseOption"; choiceId: string }
+  | { type: "advanceMonth" }
+  // back to before the last choice, or to the start of an earlier month
+  | { type: "undo" }
+  | { type: "rewind"; month: number }
+  // close the result of a finished run so another scenario can be picked
+  | { type: "dismissResult" }
+  // which accounts cover a deficit first; every account, once
+  | { type: "reorderDrain"; order: AccountId[] };
+
+export type DomainEvent =
+  | { type: "scenarioStarted"; scenarioId: ScenarioId }
+  | { type: "packLoaded"; events: number }
+  | { type: "goalSet"; description: string }
+  | { type: "eventOffered"; month: number; eventId: string }
+  | { type: "choiceMade"; month: number; eventId: string; choiceId: string }
+  | { type: "monthClosed"; month: number }
+  | { type: "gameWon"; month: number; message: string }
+  | { type: "gameLost"; month: number; message: string }
+  | { type: "rewound"; month: number }
+  | { type: "resultDismissed"; month: number }
+  | { type: "drainReordered"; order: AccountId[] }
+  | { type: "actionRejected"; action: GameAction["type"]; reason: string };
+
+export type EngineStep = { state: GameState; events: DomainEvent[] };
+
+export const UNDO_LIMIT = 12; // month starts kept for undo and rewind
+
+// A month's starting state, before its choice. The log, replay and timeline only ever grow,
+// so their lengths are enough to cut them back.
+export type UndoEntry = {
+  month: number;
+  eventId?: string;
+  logLength: number;
+  replayLength: number;
+  timelineLength: number;
+  state: Omit<GameState, "log" | "undoStack" | "replay" | "timeline">;
+};
+
+const offered = (state: GameState): DomainEvent[] =>
+  state.currentEventId ? [{ type: "eventOffered", month: state.stats.month, eventId: state.currentEventId }] : [];
+
+// Ends the run when the goal is met or a lose rule breaks; a win takes precedence
+function settle(state: GameState): EngineStep {
+  const month = state.stats.month;
+  const win = checkWin(state);
+  if (win.win) {
+    const message = win.message ?? "You achieved your goal!";
+    return { state: { ...state, gameOver: true, result: { status: "win", message } }, events: [{ type: "gameWon", month, message }] };
+  }
+  const lose = checkLose(state);
+  if (lose.lose) {
+    const message = lose.message ?? "Game over.";
+    return { state: { ...state, gameOver: true, result: { status: "lose", message } }, events: [{ type: "gameLost", month, message }] };
+  }
+  return { state, events: [] };
+}
+
+function restore(state: GameState, index: number): EngineStep {
+  const entry = state.undoStack[index];
+  const log = state.log.slice(state.log.length - entry.logLength);
+  const restored: GameState = {
+    ...entry.state,
+    customPackId: state.customPackId, // packs only grow, so events that arrived since stay
+    log: [systemEntry(`Went back to the start of month ${entry.month}.`, entry.month), ...log],
+    replay: state.replay.slice(0, entry.replayLength),
+    timeline: state.timeline.slice(0, entry.timelineLength),
+    undoStack: state.undoStack.slice(0, index),
+  };
+  return { state: restored, events: [{ type: "rewound", month: entry.month }, ...offered(restored)] };
+}
+
+// A fresh run of a scenario with its first event on screen
+export function startGame(scenarioId: ScenarioId, init: Partial<GameState> = {}): EngineStep {
+  const state = withNextEvent(createGameState(scenarioId, init));
+  return { state, events: [{ type: "scenarioStarted", scenarioId }, ...offered(state)] };
+}
+
+export function reduceGame(state: GameState, action: GameAction): EngineStep {
+  const reject = (reason: string): EngineStep => ({ state, events: [{ type: "actionRejected", action: action.type, reason }] });
+
+  switch (action.type) {
+    case "startScenario":
+      return startGame(action.scenarioId, action.init);
+
+    case "loadCustomPack": {
+      if (state.scenarioId !== "custom") return reject("Only a custom run plays a generated pack.");
+      setCustomEvents(action.events);
+      const tagged = { ...state, customPackId: action.packId ?? state.customPackId };
+      const events: DomainEvent[] = [{ type: "packLoaded", events: customPackEvents().length }];
+      // A run still showing a stand-in event (no pack yet, or the last run's) starts on the new one
+      const waiting = !tagged.currentChoiceId && !customEvents.some((ev) => ev.id === tagged.currentEventId);
+      if (!waiting || tagged.gameOver) return { state: tagged, events };
+      const next = withNextEvent(tagged);
+      return { state: next, events: [...events, ...offered(next)] };
+    }
+
+    case "setGoal": {
+      if (state.scenarioId !== "custom") return reject("Only a custom run takes a generated goal.");
+      // The goal belongs to the whole run, so the months kept for undo get it too
+      const fields = goalFields(action.goal);
+      const undoStack = state.undoStack.map((entry) => ({ ...entry, state: { ...entry.state, ...fields } }));
+      return { state: { ...state, ...fields, undoStack }, events: [{ type: "goalSet", description: action.goal.description }] };
+    }
+
+    case "appendSystemLog":
+      return { state: { ...state, log: [systemEntry(action.text, state.stats.month), ...state.log] }, events: [] };
+
+    case "chooseOption": {
+      if (state.gameOver) return reject("The game is over.");
+      if (state.currentChoiceId) return reject("A choice was already made this month.");
+      const event = currentEvent(state);
+      const choice = event?.choices.find((c) => c.id === action.choiceId);
+      if (!event || !choice) return reject(`"${action.choiceId}" is not a choice for the event on screen.`);
+      const month = state.stats.month;
+      const { log, undoStack, replay, timeline, ...start } = state;
+      const entry: UndoEntry = {
+        month,
+        eventId: event.id,
+        logLength: log.length,
+        replayLength: replay.length,
+        timelineLength: timeline.length,
+        state: start,
+      };
+      const resolved = resolveChoice(state, event, choice);
+      const chosen = {
+        ...resolved,
+        currentChoiceId: choice.id,
+        replay: recordChoice(state, resolved, event.id, choice.id),
+        undoStack: state.hardcore ? [] : [...undoStack, entry].slice(-UNDO_LIMIT),
+      };
+      const settled = settle(chosen);
+      return { state: settled.state, events: [{ type: "choiceMade", month, eventId: event.id, choiceId: choice.id }, ...settled.events] };
+    }
+
+    case "advanceMonth": {
+      if (state.gameOver) return reject("The game is over.");
+      if (!state.currentChoiceId) return reject("Choose an option before ending the month.");
+      const month = state.stats.month;
+      const closed = advanceMonth(state);
+      const settled = settle({ ...closed.state, currentChoiceId: undefined });
+      const events: DomainEvent[] = [{ type: "monthClosed", month }, ...settled.events];
+      const next = settled.state.gameOver ? settled.state : withNextEvent(settled.state);
+      const recorded = {
+        ...next,
+        replay: recordClose(state, closed.state, closed.tick.breakdown, next),
+        timeline: [...state.timeline, closed.state.stats],
+      };
+      return { state: recorded, events: next.gameOver ? events : [...events, ...offered(next)] };
+    }
+
+    case "undo":
+      if (state.hardcore) return reject("Hardcore runs can't be undone.");
+      if (state.undoStack.length === 0) return reject("There is nothing to undo.");
+      return restore(state, state.undoStack.length - 1);
+
+    case "rewind": {
+      if (state.hardcore) return reject("Hardcore runs can't be rewound.");
+      const index = state.undoStack.findIndex((e) => e.month === action.month);
+      if (index < 0) return reject(`Month ${action.month} is no longer in the undo history.`);
+      return restore(state, index);
+    }
+
+    case "dismissResult":
+      if (!state.gameOver) return reject("The game is not over.");
+      return { state: { ...state, gameOver: false, result: undefined }, events: [{ type: "resultDismissed", month: state.stats.month }] };
+
+    case "reorderDrain": {
+      const { order } = action;
+      if (order.length !== ACCOUNT_IDS.length || !ACCOUNT_IDS.every((id) => order.includes(id))) {
+        return reject("The drain order must list every account once.");
+      }
+      return { state: { ...state, drainOrder: [...order] }, events: [{ type: "drainReordered", order }] };
+    }
+  }
+}
@@ -0,0 +1,68 @@
+// gameLog.ts
+// The game log as typed entries rather than text: the month, what produced the line, what
+// it was about and how far it moved each stat, so the log panel can filter, group by month
+// and add up totals such as interest paid this year.
+//
+// The finance, ledger and account code produce bare LogLines; the turn that calls them
+// stamps the month and source.
+
+import type { GameStats } from "./gameState";
+
+export type LogSource = "event" | "tick" | "system";
+
+export type LogCategory =
+  | "choice" // the player's decision and the follow-ups it set off
+  | "income"
+  | "expenses"
+  | "impulse"
+  | "interest" // charged on loans and cards
+  | "payments" // loan, installment and subscription payments
+  | "cashflow" // what the month left over, or the shortfall
+  | "savings" // account moves and returns
+  | "debt" // obligations taken on, refinanced, cancelled or paid off
+  | "mood"
+  | "system";
+
+export const LOG_SOURCES: LogSource[] = ["event", "tick", "system"];
+export const LOG_CATEGORIES: LogCategory[] = [
+  "choice",
+  "income",
+  "expenses",
+  "impulse",
+  "interest",
+  "payments",
+  "cashflow",
+  "savings",
+  "debt",
+  "mood",
+  "system",
+];
+
+export type LogDeltas = Partial<Record<Exclude<keyof GameStats, "month">, number>>;
+
+export type LogLine = { category: LogCategory; text: string; deltas?: LogDeltas };
+
+export type LogEntry = LogLine & { month: number; source: LogSource };
+
+export function stampLines(lines: LogLine[], month: number, source: LogSource): LogEntry[] {
+  return lines.map((line) => ({ month, source, ...line }));
+}
+
+// Welcome lines, scenario switches and other notes from outside the simulation
+export function systemEntry(text: string, month = 1): LogEntry {
+  return { month, source: "system", category: "system", text };
+}
+
+// Every delta added up per stat
+export function logTotals(entries: LogEntry[]): LogDeltas {
+  const totals: LogDeltas = {};
+  for (const entry of entries) {
+    for (const [stat, delta] of Object.entries(entry.deltas ?? {}) as [keyof LogDeltas, number][]) {
+      totals[stat] = (totals[stat] ?? 0) + delta;
+    }
+  }
+  return totals;
+}
+
+// Months 1-12 are year 1
+export const yearOf = (month: number) => Math.max(1, Math.ceil(month / 12));
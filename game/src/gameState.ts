@@ -1,6 +1,11 @@
 // gameState.ts
+import { freshRng, type RngState } from "./rng";
+import { reconcileDebt, type Obligation } from "./ledger";
+import { defaultDrainOrder, openingAccounts, type AccountId, type Accounts } from "./accounts";
+import { scenarioDefinition } from "./scenarioRegistry";
+import { systemEntry } from "./gameLog";
 
-export type ScenarioId = "classic" | "student" | "startup" | "custom";
+export type ScenarioId = string; // a key in the scenario registry; "custom" plays the generated pack
 
 export type GameStats = {
   month: number;
@@ -21,65 +26,62 @@ export type GameResult = {
 
 export type GameState = {
   stats: GameStats;
-  log: string[];
+  startingStats: GameStats; // what a replay of this run starts from
+  log: import("./gameLog").LogEntry[]; // newest first
   gameOver: boolean;
   result?: GameResult;
+  currentEventId?: string; // event on screen, so a reload resumes on it
+  currentChoiceId?: string; // the choice made for it; set until the month closes
   lastEventId?: string;
   lastTag?: string;
   lastSeen: Record<string, number>; // eventId -> month last seen
   scenarioId: ScenarioId; // which scenario determines event pack
+  customPackId?: string; // stored custom event pack this run plays (custom scenario only)
   goalDescription?: string;
-  winCondition?: import("./goals").WinCondition;
-};
-
-export const baseStats: GameStats = {
-  month: 1,
-  budget: 0,
-  impulse: 30,
-  savings: 1000,
-  debt: 0,
-  income: 2500,
-  fixedExpenses: 1800,
-  happiness: 60,
-  stress: 40,
+  win?: import("./winExpression").WinExpression; // the run's own goal; otherwise the scenario default applies
+  winProgress: import("./winExpression").WinProgress; // sustained months, milestones and deadlines reached
+  lose?: import("./loseRules").LoseRule[]; // the run's own lose rules, on top of the scenario's
+  loseStreaks: import("./loseRules").LoseStreaks; // rule id -> month-ends in a row its trigger has held
+  rng: RngState; // every random draw goes through this
+  scheduled: import("./chains").ScheduledItem[]; // pending follow-up events and deferred effects
+  obligations: Obligation[]; // loans, installments and subscriptions behind stats.debt
+  accounts: Accounts; // how stats.savings is split across accounts
+  drainOrder: AccountId[]; // which accounts cover a deficit first
+  undoStack: import("./gameEngine").UndoEntry[]; // month starts to undo or rewind to, oldest first
+  replay: import("./replay").TurnRecord[]; // every month played, oldest first
+  timeline: GameStats[]; // stats at the start of each month, oldest first
+  hardcore?: boolean; // no undo or rewind; shown on the save
 };
 
 export function initialStatsForScenario(scenarioId: ScenarioId): GameStats {
-  switch (scenarioId) {
-    case "student":
-      return {
-        month: 1,
-        budget: 0,
-        impulse: 35,
-        savings: 300,
-        debt: 2000, // student loan
-        income: 900,
-        fixedExpenses: 800,
-        happiness: 65,
-        stress: 50,
-      };
-    case "startup":
-      return {
-        month: 1,
-        budget: 0,
-        impulse: 45,
-        savings: 3000,
-        debt: 8000,
-        income: 4200, // low salary early on
-        fixedExpenses: 1500,
-        happiness: 70,
-        stress: 55,
-      };
-    case "classic":
-    default:
-      return { ...baseStats };
-  }
+  return { ...scenarioDefinition(scenarioId).startingStats };
 }
 
-export const initialGameState: GameState = {
-  stats: { ...baseStats },
-  log: ["Welcome to Centsible Game!"],
-  gameOver: false,
-  lastSeen: {},
-  scenarioId: "classic",
-};
+export function initialObligationsForScenario(scenarioId: ScenarioId): Obligation[] {
+  return scenarioDefinition(scenarioId).obligations.map((o) => ({ ...o }));
+}
+
+// A fresh run of a scenario with its own seed; `init` overrides any field
+export function createGameState(scenarioId: ScenarioId, init: Partial<GameState> = {}): GameState {
+  const stats = init.stats ?? initialStatsForScenario(scenarioId);
+  return {
+    stats,
+    startingStats: stats,
+    log: [systemEntry("Welcome to Centsible Game!", stats.month)],
+    gameOver: false,
+    scenarioId,
+    lastSeen: {},
+    winProgress: {},
+    loseStreaks: {},
+    scheduled: [],
+    // Any starting debt beyond the scenario's named loans goes on the credit card
+    obligations: reconcileDebt(initialObligationsForScenario(scenarioId), stats.debt),
+    accounts: openingAccounts(stats.savings),
+    drainOrder: defaultDrainOrder,
+    undoStack: [],
+    replay: [],
+    timeline: [stats],
+    rng: freshRng(),
+    ...init,
+  };
+}
@@ -0,0 +1,129 @@
+// goalParser.test.ts
+
+import { describe, expect, it } from "vitest";
+import { parseGoal, type GoalProfile, type ParsedGoal } from "./goalParser";
+
+const profile: GoalProfile = { risk: "medium", income: 3000, fixedExpenses: 1800, savings: 1000, debt: 4000 };
+
+const cases: { name: string; text: string; expected: ParsedGoal }[] = [
+  {
+    name: "compound clauses joined by 'and'",
+    text: "Save $5k and get stress below 30",
+    expected: {
+      description: "Grow your savings from $1,000 to $5,000; get stress under 30.",
+      win: {
+        all: [
+          { condition: { stat: "savings", operator: ">=", value: 5000 } },
+          { condition: { stat: "stress", operator: "<", value: 30 } },
+        ],
+        label: "Grow your savings from $1,000 to $5,000; get stress under 30",
+      },
+    },
+  },
+  {
+    name: "a 'within N months' deadline",
+    text: "save $2,000 within 12 months",
+    expected: {
+      description: "Grow your savings from $1,000 to $2,000, by month 12.",
+      win: {
+        by: 12,
+        goal: { condition: { stat: "savings", operator: ">=", value: 2000 }, label: "Grow your savings from $1,000 to $2,000" },
+      },
+    },
+  },
+  {
+    name: "a named deadline",
+    text: "pay off debt by graduation",
+    expected: {
+      description: "Reduce your debt from $4,000 to $0, by month 24.",
+      win: {
+        by: 24,
+        goal: { condition: { stat: "debt", operator: "<=", value: 0 }, label: "Reduce your debt from $4,000 to $0" },
+      },
+    },
+  },
+  {
+    name: "a range",
+    text: "keep happiness between 60 and 80",
+    expected: {
+      description: "Keep happiness between 60 and 80.",
+      win: {
+        condition: {
+          all: [
+            { stat: "happiness", operator: ">=", value: 60 },
+            { stat: "happiness", operator: "<=", value: 80 },
+          ],
+        },
+        label: "Keep happiness between 60 and 80",
+      },
+    },
+  },
+  {
+    name: "a 'for N months' sustain",
+    text: "keep stress below 30 for 3 months",
+    expected: {
+      description: "Get stress under 30 for 3 months in a row.",
+      win: {
+        sustain: { condition: { stat: "stress", operator: "<", value: 30 } },
+        months: 3,
+        label: "Get stress under 30 for 3 months in a row",
+      },
+    },
+  },
+  {
+    name: "milestones joined by 'then'",
+    text: "pay off debt, then save $2k",
+    expected: {
+      description: "Reduce your debt from $4,000 to $0, then grow your savings from $1,000 to $2,000.",
+      win: {
+        milestones: [
+          { condition: { stat: "debt", operator: "<=", value: 0 }, label: "Reduce your debt from $4,000 to $0" },
+          { condition: { stat: "savings", operator: ">=", value: 2000 }, label: "Grow your savings from $1,000 to $2,000" },
+        ],
+      },
+    },
+  },
+  {
+    name: "a 'without' fail clause",
+    text: "save $2k without missing a payment",
+    expected: {
+      description: "Grow your savings from $1,000 to $2,000, without missing a payment.",
+      win: { condition: { stat: "savings", operator: ">=", value: 2000 }, label: "Grow your savings from $1,000 to $2,000" },
+      lose: [
+        {
+          id: "goal-1",
+          missedPayment: true,
+          months: 1,
+          label: "Miss a payment",
+          message: "You ended up missing a payment, which your goal ruled out.",
+        },
+      ],
+    },
+  },
+  {
+    name: "a 'never' fail clause",
+    text: "save $3000 and never let stress go above 90",
+    expected: {
+      description: "Grow your savings from $1,000 to $3,000, without stress going above 90.",
+      win: { condition: { stat: "savings", operator: ">=", value: 3000 }, label: "Grow your savings from $1,000 to $3,000" },
+      lose: [
+        {
+          id: "goal-1",
+          condition: { stat: "stress", operator: ">", value: 90 },
+          label: "Stress above 90",
+          message: "Your stress went above 90, which your goal ruled out.",
+        },
+      ],
+    },
+  },
+];
+
+describe("parseGoal", () => {
+  it.each(cases)("reads $name", ({ text, expected }) => {
+    expect(parseGoal(text, profile)).toEqual(expected);
+  });
+
+  it.each(["save money for a house", "be happier", ""])("returns null for %j", (text) => {
+    expect(parseGoal(text, profile)).toBeNull();
+  });
+});
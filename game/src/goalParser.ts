@@ -0,0 +1,401 @@
+// goalParser.ts
+// Turns the survey's free-text goal into a goal the game can evaluate.
+// Started as a port of parseUserGoal in server/index.js; it now also reads several clauses,
+// deadlines, ranges, "for N months" and "then", e.g.
+//   "Save $5k and get stress below 30 within a year" -> savings >= 5000, stress < 30, by month 12
+//   "pay off debt by graduation"                     -> debt <= 0, by month 24
+//   "keep happiness between 60 and 80"               -> happiness >= 60 and happiness <= 80
+//   "grow savings by 10% in 6 months"                -> savings >= current + 10%, by month 6
+//   "keep stress below 30 for 3 months"              -> stress < 30 at 3 month-ends in a row
+//   "pay off debt, then save $2k"                    -> debt <= 0 first, savings >= 2000 after
+//   "save $2k without missing a payment"            -> savings >= 2000; a missed payment loses the run
+//   "... and never let stress go above 90"           -> the run is lost once stress > 90
+
+import type { ComparisonOperator } from "./conditions";
+import type { ScenarioGoal, WinCondition } from "./goals";
+import type { LoseRule } from "./loseRules";
+import type { WinExpression } from "./winExpression";
+
+type GoalStat = WinCondition["stat"];
+
+// The survey fields the parser reads
+export type GoalProfile = {
+  risk?: string;
+  income?: number;
+  fixedExpenses?: number;
+  savings?: number;
+  debt?: number;
+};
+
+type GoalClause = {
+  stat: GoalStat;
+  description: string;
+  win: WinExpression; // a comparison, `all` of two for a range, or either held for some months
+};
+
+export type ParsedGoal = {
+  description: string;
+  win: WinExpression;
+  lose?: LoseRule[]; // from "without ..." and "never ..."
+};
+
+const MONEY_STATS: GoalStat[] = ["savings", "income", "debt", "fixedExpenses"];
+const POSITIVE_STATS: GoalStat[] = ["savings", "income", "happiness"];
+const LABELS: Record<GoalStat, string> = {
+  savings: "savings",
+  debt: "debt",
+  income: "income",
+  fixedExpenses: "fixed expenses",
+  happiness: "happiness",
+  stress: "stress",
+  impulse: "impulse",
+};
+
+const NUMBER = String.raw`\$?\d[\d,]*(?:\.\d+)?\s*k?`;
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, eighteen: 18, "twenty-four": 24,
+};
+// Months have no calendar in the game, so named moments are rough distances from the start
+const NAMED_DEADLINES: Record<string, number> = {
+  summer: 6,
+  "summer vacation": 6,
+  holidays: 12,
+  christmas: 12,
+  "next year": 12,
+  graduation: 24,
+};
+const DEADLINE_PATTERNS: { re: RegExp; month: (m: RegExpMatchArray) => number }[] = [
+  {
+    re: new RegExp(String.raw`\b(?:within|in|over|inside)\s+(?:the\s+next\s+)?(\d+|${Object.keys(NUMBER_WORDS).join("|")})\s+(months?|years?)\b`, "gi"),
+    month: (m) => (NUMBER_WORDS[m[1].toLowerCase()] ?? Number(m[1])) * (m[2].toLowerCase().startsWith("year") ? 12 : 1),
+  },
+  { re: /\bby\s+month\s+(\d+)\b/gi, month: (m) => Number(m[1]) },
+  { re: /\bby\s+(?:the\s+)?end\s+of\s+(?:the\s+|this\s+)?year\b/gi, month: () => 12 },
+  {
+    re: /\b(?:by|before)\s+(?:my\s+|the\s+)?(summer vacation|summer|holidays|christmas|next year|graduation)\b/gi,
+    month: (m) => NAMED_DEADLINES[m[1].toLowerCase()],
+  },
+];
+// Explicit comparisons; the two-word forms are checked first
+const COMPARATORS: [RegExp, ComparisonOperator][] = [
+  [/\b(?:at most|no more than|or less|up to)\b|<=/, "<="],
+  [/\b(?:at least|no less than|or more)\b|>=/, ">="],
+  [/\b(?:below|under|less than|lower than|fewer than)\b|</, "<"],
+  [/\b(?:above|over|more than|greater than|higher than)\b|>/, ">"],
+];
+const COMPARATOR_WORDS: Record<ComparisonOperator, string> = {
+  "<": "under",
+  "<=": "to at most",
+  ">": "above",
+  ">=": "to at least",
+  "==": "to exactly",
+  "!=": "away from",
+};
+
+const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n));
+const num = (v: unknown) => (Number.isFinite(Number(v)) ? Number(v) : 0);
+
+export function formatMoney(n: number): string {
+  const val = Math.round(Number(n) || 0);
+  return `$${val.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",")}`;
+}
+
+const formatStat = (stat: GoalStat, n: number) => (MONEY_STATS.includes(stat) ? formatMoney(n) : String(Math.round(n)));
+
+// Round to the nearest $50 for cleaner targets
+function roundMoney(n: number): number {
+  return Math.max(0, Math.round((Number(n) || 0) / 50) * 50);
+}
+
+const roundFor = (stat: GoalStat, n: number) => (MONEY_STATS.includes(stat) ? roundMoney(n) : clamp(Math.round(n), 0, 100));
+
+// Excludes percentages; captures $4,000, 4000, 4k
+function parseAbsoluteNumberToken(text: string): number | null {
+  const m = text.match(/(?:\$|usd\s*)?(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)(?:\s*(k))?(?!\s*%)/i);
+  if (!m) return null;
+  const base = parseFloat(m[1]?.replace(/,/g, "") ?? "");
+  if (Number.isNaN(base)) return null;
+  return m[2] ? base * 1000 : base;
+}
+
+function parsePercentToken(text: string): number | null {
+  const m = text.match(/(\d+(?:\.\d+)?)\s*%/);
+  return m ? parseFloat(m[1]) : null;
+}
+
+function detectStat(text: string): GoalStat | null {
+  const t = text.toLowerCase();
+  if (/pay\s*off\s*debt|debt[-\s]?free|clear\s*debt/.test(t)) return "debt";
+  if (/savings?|save\b/.test(t)) return "savings";
+  if (/\bdebt\b|owe\b/.test(t)) return "debt";
+  if (/income|salary|paycheck|wage/.test(t)) return "income";
+  if (/(fixed\s*)?expenses|bills/.test(t)) return "fixedExpenses";
+  if (/stress(ed)?\b/.test(t)) return "stress";
+  if (/happiness|happy\b/.test(t)) return "happiness";
+  if (/impulse|impulsivity/.test(t)) return "impulse";
+  return null;
+}
+
+// Impulse the game starts a custom run with for each risk level
+export function impulseForRisk(risk: string | undefined): number {
+  const r = String(risk || "medium").toLowerCase();
+  return r === "high" ? 60 : r === "low" ? 25 : 40;
+}
+
+export function currentFor(profile: GoalProfile, stat: GoalStat): number {
+  switch (stat) {
+    case "savings":
+    case "debt":
+    case "income":
+    case "fixedExpenses":
+      return num(profile[stat]);
+    case "impulse":
+      return impulseForRisk(profile.risk);
+    case "happiness":
+      return 60; // game defaults
+    case "stress":
+      return 40;
+  }
+}
+
+function minimalMoneyBump(profile: GoalProfile): number {
+  const budget = num(profile.income) - num(profile.fixedExpenses);
+  return Math.max(50, Math.round(Math.abs(budget) * 0.1));
+}
+
+export function buildDescription(stat: GoalStat, current: number, target: number): string {
+  const verb = ["debt", "fixedExpenses", "stress", "impulse"].includes(stat) ? "Reduce" : stat === "happiness" ? "Increase" : "Grow";
+  if (MONEY_STATS.includes(stat)) {
+    return `${verb} your ${LABELS[stat]} from ${formatMoney(current)} to ${formatMoney(target)}.`;
+  }
+  return `${verb} ${stat} from ${Math.round(current)} to ${Math.round(target)}.`;
+}
+
+// Pulls every deadline phrase out of the text; the latest one wins
+function extractDeadline(text: string): { rest: string; deadline?: number } {
+  let rest = text;
+  let deadline: number | undefined;
+  for (const { re, month } of DEADLINE_PATTERNS) {
+    rest = rest.replace(re, (...args) => {
+      const m = month(args.slice(0, -2) as RegExpMatchArray);
+      if (Number.isFinite(m)) deadline = Math.max(deadline ?? 0, clamp(Math.round(m), 2, 120));
+      return " ";
+    });
+  }
+  return { rest, deadline };
+}
+
+// "save $5,000 and get stress below 30; keep happiness between 60 and 80"
+function splitClauses(text: string): string[] {
+  return text
+    .replace(new RegExp(String.raw`\bbetween\s+(${NUMBER})\s+and\s+`, "gi"), "between $1 to ")
+    .split(/\s*(?:,(?!\d{3})|;|&|\band\b|\bplus\b|\balso\b|\bwhile\b)\s*/i)
+    .map((c) => c.trim())
+    .filter(Boolean);
+}
+
+function parseRange(text: string): [number, number] | null {
+  const m =
+    text.match(new RegExp(String.raw`between\s+(${NUMBER})\s+to\s+(${NUMBER})`, "i")) ??
+    text.match(new RegExp(String.raw`(${NUMBER})\s*[-–—]\s*(${NUMBER})`));
+  if (!m) return null;
+  const a = parseAbsoluteNumberToken(m[1]);
+  const b = parseAbsoluteNumberToken(m[2]);
+  return a == null || b == null ? null : [Math.min(a, b), Math.max(a, b)];
+}
+
+function parseClause(text: string, profile: GoalProfile): GoalClause | null {
+  const stat = detectStat(text);
+  if (!stat) return null;
+  const lower = text.toLowerCase();
+  const label = LABELS[stat];
+
+  const range = parseRange(text);
+  if (range) {
+    const [low, high] = range.map((n) => roundFor(stat, n));
+    return {
+      stat,
+      description: `Keep ${label} between ${formatStat(stat, low)} and ${formatStat(stat, high)}.`,
+      win: { condition: { all: [{ stat, operator: ">=", value: low }, { stat, operator: "<=", value: high }] } },
+    };
+  }
+
+  // "stress below 30", "savings of at least $2k": the player chose the direction
+  const explicit = COMPARATORS.find(([re]) => re.test(lower))?.[1];
+  const absolute = parsePercentToken(text) == null ? parseAbsoluteNumberToken(text) : null;
+  if (explicit && absolute != null) {
+    const value = roundFor(stat, absolute);
+    return {
+      stat,
+      description: `Get ${label} ${COMPARATOR_WORDS[explicit]} ${formatStat(stat, value)}.`,
+      win: { condition: { stat, operator: explicit, value } },
+    };
+  }
+
+  const positive = POSITIVE_STATS.includes(stat);
+  const operator = positive ? ">=" : "<=";
+  const percent = parsePercentToken(text);
+  const current = currentFor(profile, stat);
+  const toTarget = lower.match(new RegExp(String.raw`\bto\s+(${NUMBER})(?!\s*%)`));
+  let target: number | undefined;
+
+  if (stat === "debt" && /pay\s*off|debt[-\s]?free|clear\s*debt/.test(lower)) {
+    target = 0;
+  } else if (toTarget) {
+    // "from $500 to $1,000" means the second number
+    target = Math.max(0, parseAbsoluteNumberToken(toTarget[1]) ?? 0);
+  } else if (percent != null) {
+    // Keep relative goals to a 5-20% change
+    const p = clamp(percent / 100, 0.05, 0.2);
+    target = positive ? current * (1 + p) : current * (1 - p);
+  } else {
+    // "by 400", "+ 400", "cut 400"
+    const byAbs = text.match(/(?:by|\+|plus|increase|decrease|reduce|cut)\s*(\$?\d[\d,]*)(?!\s*%)/i);
+    if (byAbs) {
+      const n = parseFloat(byAbs[1].replace(/[$,]/g, "")) || 0;
+      target = positive ? current + n : Math.max(0, current - n);
+    } else if (absolute != null) {
+      target = Math.max(0, absolute);
+    }
+  }
+  if (target == null) return null;
+
+  let rounded = roundFor(stat, target);
+
+  // A goal that is already met is bumped just past the current value
+  const satisfied = operator === ">=" ? current >= rounded : current <= rounded;
+  if (satisfied) {
+    if (MONEY_STATS.includes(stat)) {
+      const bump = minimalMoneyBump(profile);
+      if (operator === ">=") {
+        rounded = roundMoney(current + bump);
+      } else {
+        const floorZero = stat === "debt" || stat === "fixedExpenses";
+        rounded = roundMoney(floorZero ? Math.max(0, current - bump) : current - bump);
+        if (floorZero && rounded === 0 && current === 0) {
+          // Nothing left to reduce: aim for a small savings target instead
+          const savings = num(profile.savings);
+          const alt = roundMoney(savings + Math.max(100, bump));
+          return {
+            stat: "savings",
+            description: buildDescription("savings", savings, alt),
+            win: { condition: { stat: "savings", operator: ">=", value: alt } },
+          };
+        }
+      }
+    } else {
+      rounded = clamp(Math.round(operator === ">=" ? current + 1 : current - 1), 0, 100);
+    }
+  }
+
+  return {
+    stat,
+    description: buildDescription(stat, current, rounded),
+    win: { condition: { stat, operator, value: rounded } },
+  };
+}
+
+const SUSTAIN_RE = new RegExp(
+  String.raw`\bfor\s+(\d+|${Object.keys(NUMBER_WORDS).join("|")})\s+(?:straight\s+|consecutive\s+)?months?(?:\s+in\s+a\s+row)?\b`,
+  "i"
+);
+
+// "keep stress below 30 for 3 months" holds the clause for that many month-ends in a row
+function parseSustainedClause(text: string, profile: GoalProfile): GoalClause | null {
+  const m = text.match(SUSTAIN_RE);
+  const clause = parseClause(m ? text.replace(SUSTAIN_RE, " ") : text, profile);
+  if (!clause || !m) return clause;
+  const months = clamp(NUMBER_WORDS[m[1].toLowerCase()] ?? Number(m[1]), 1, 60);
+  const description = `${clause.description.replace(/\.$/, "")} for ${months} months in a row.`;
+  return { ...clause, description, win: { sustain: clause.win, months, label: description } };
+}
+
+const FAIL_MARKER_RE = /\b(?:without|never)\b/i;
+const MISSED_PAYMENT_RE = new RegExp(
+  String.raw`\bmiss(?:ing|ed)?\s+(?:any\s+|(\d+|${Object.keys(NUMBER_WORDS).join("|")})\s+)?(?:\w+\s+)?payments?\b`,
+  "i"
+);
+
+// "missing a payment", "stress going above 90 for 2 months": something that loses the run
+function parseFailClause(text: string, id: string): { rule: LoseRule; phrase: string } | null {
+  const missed = text.match(MISSED_PAYMENT_RE);
+  if (missed) {
+    const months = missed[1] ? clamp(NUMBER_WORDS[missed[1].toLowerCase()] ?? Number(missed[1]), 1, 12) : 1;
+    const phrase = months === 1 ? "missing a payment" : `missing payments ${months} months in a row`;
+    return {
+      rule: { id, missedPayment: true, months, label: `Miss ${phrase.slice("missing ".length)}`, message: `You ended up ${phrase}, which your goal ruled out.` },
+      phrase,
+    };
+  }
+
+  const sustained = text.match(SUSTAIN_RE);
+  const rest = sustained ? text.replace(SUSTAIN_RE, " ") : text;
+  const stat = detectStat(rest);
+  const operator = COMPARATORS.find(([re]) => re.test(rest.toLowerCase()))?.[1];
+  const absolute = parsePercentToken(rest) == null ? parseAbsoluteNumberToken(rest) : null;
+  if (!stat || !operator || absolute == null) return null;
+  const value = roundFor(stat, absolute);
+  const months = sustained ? clamp(NUMBER_WORDS[sustained[1].toLowerCase()] ?? Number(sustained[1]), 1, 60) : undefined;
+  const limit = `${COMPARATOR_WORDS[operator].replace(/^to /, "")} ${formatStat(stat, value)}${months ? ` for ${months} months in a row` : ""}`;
+  return {
+    rule: {
+      id,
+      condition: { stat, operator, value },
+      ...(months ? { months } : {}),
+      label: `${LABELS[stat][0].toUpperCase()}${LABELS[stat].slice(1)} ${limit}`,
+      message: `Your ${LABELS[stat]} went ${limit}, which your goal ruled out.`,
+    },
+    phrase: `${LABELS[stat]} going ${limit}`,
+  };
+}
+
+const joinPhrases = (phrases: string[], separator: string) =>
+  phrases.map((p, i) => (i === 0 ? p : p[0].toLowerCase() + p.slice(1))).join(separator);
+
+export function parseGoal(goalText: string, profile: GoalProfile): ParsedGoal | null {
+  const text = goalText.trim();
+  if (!text) return null;
+  const { rest: withoutDeadline, deadline } = extractDeadline(text);
+
+  // Everything after "without" or "never" is a way to lose, not part of the goal
+  const failAt = withoutDeadline.search(FAIL_MARKER_RE);
+  const rest = failAt < 0 ? withoutDeadline : withoutDeadline.slice(0, failAt);
+  const fails: { rule: LoseRule; phrase: string }[] = [];
+  if (failAt >= 0) {
+    for (const part of withoutDeadline.slice(failAt).split(/\s*(?:,|;|\band\b|\bor\b|\bnor\b|\bwithout\b|\bnever\b)\s*/i)) {
+      const fail = part.trim() && parseFailClause(part, `goal-${fails.length + 1}`);
+      if (fail) fails.push(fail);
+    }
+  }
+
+  // "then" starts the next milestone; clauses inside one stage must hold together
+  const stages: { description: string; win: WinExpression }[] = [];
+  for (const stageText of rest.split(/\s*,?\s*\b(?:and\s+)?(?:then|after that)\b\s*/i)) {
+    // One clause per stat; the first mention wins
+    const clauses: GoalClause[] = [];
+    for (const part of splitClauses(stageText)) {
+      const clause = parseSustainedClause(part, profile);
+      if (clause && !clauses.some((c) => c.stat === clause.stat)) clauses.push(clause);
+    }
+    if (clauses.length === 0) continue;
+    const description = joinPhrases(clauses.map((c) => c.description.replace(/\.$/, "")), "; ");
+    const win = clauses.length === 1 ? clauses[0].win : { all: clauses.map((c) => c.win) };
+    stages.push({ description, win: { ...win, label: clauses.length === 1 ? clauses[0].description.replace(/\.$/, "") : description } });
+  }
+  if (stages.length === 0) return null;
+
+  let win: WinExpression = stages.length === 1 ? stages[0].win : { milestones: stages.map((s) => s.win) };
+  let description = joinPhrases(stages.map((s) => s.description), ", then ");
+  if (deadline) {
+    win = { by: deadline, goal: win };
+    description += `, by month ${deadline}`;
+  }
+  if (fails.length > 0) description += `, without ${fails.map((f) => f.phrase).join(" or ")}`;
+  return { description: `${description}.`, win, ...(fails.length > 0 ? { lose: fails.map((f) => f.rule) } : {}) };
+}
+
+// The parsed goal in the shape scenarios and saves carry
+export function goalFromText(goalText: string, profile: GoalProfile): ScenarioGoal | null {
+  return parseGoal(goalText, profile);
+}
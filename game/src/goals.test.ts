@@ -0,0 +1,35 @@
+// goals.test.ts
+
+import { describe, expect, it } from "vitest";
+import { createGameState } from "./gameState";
+import { goalFromText } from "./goalParser";
+import { activeLoseRules, advanceGoal, checkLose, goalFields } from "./goals";
+
+const profile = { income: 4000, fixedExpenses: 2500, savings: 2000, debt: 5000 };
+
+describe("activeLoseRules", () => {
+  it("keeps the scenario's rules ahead of a goal's fail clauses", () => {
+    const state = createGameState("startup", goalFields(goalFromText("save $8k without missing a payment", profile)));
+    expect(activeLoseRules(state).map((r) => r.id)).toEqual(["bankruptcy", "burnout", "debt-spiral", "goal-1"]);
+  });
+
+  it("adds a goal rule only when its id is new", () => {
+    const state = createGameState("startup");
+    const copy = { ...activeLoseRules(state)[0], message: "A different ending." };
+    const rules = activeLoseRules({ ...state, lose: [copy] });
+    expect(rules).toEqual(activeLoseRules(state));
+  });
+
+  it("still loses a goal run on the scenario's bankruptcy rule", () => {
+    const start = createGameState("startup", goalFields(goalFromText("save $8k without missing a payment", profile)));
+    let state = { ...start, stats: { ...start.stats, savings: 0 } };
+    for (let month = 0; month < 3; month++) {
+      expect(checkLose(state).lose).toBe(false);
+      state = advanceGoal(state, { missedPayment: false });
+    }
+    expect(checkLose(state)).toEqual({
+      lose: true,
+      message: "Your runway ran out three months running and the company filed for bankruptcy.",
+    });
+  });
+});
@@ -1,5 +1,9 @@
-import type { GameStats, GameState, ScenarioId } from "./gameState";
+import type { GameState } from "./gameState";
+import { advanceLoseStreaks, brokenRule, loseParts, type LosePart, type LoseRule, type MonthClose } from "./loseRules";
+import { scenarioDefinition } from "./scenarioRegistry";
+import { advanceWinProgress, winParts, winStatus, type WinExpression, type WinPart } from "./winExpression";
 
+// A single `stat op value` goal: what the AI server returns and older files carry
 export type WinCondition = {
   stat: "savings" | "debt" | "income" | "impulse" | "stress" | "happiness" | "fixedExpenses";
   operator: "<" | "<=" | ">" | ">=";
@@ -8,92 +12,86 @@ export type WinCondition = {
 
 export type ScenarioGoal = {
   description: string;
-  winCondition?: WinCondition; // for custom and optionally classic/startup
+  win?: WinExpression;
+  winCondition?: WinCondition; // read when there is no `win`
+  winMessage?: string; // shown on a win when the run has no goal description of its own
+  lose?: LoseRule[]; // added to the scenario's own lose rules
 };
 
-export function evaluateWinCondition(stats: GameStats, cond: WinCondition): boolean {
-  const current = stats[cond.stat];
-  switch (cond.operator) {
-    case "<":
-      return current < cond.value;
-    case "<=":
-      return current <= cond.value;
-    case ">":
-      return current > cond.value;
-    case ">=":
-      return current >= cond.value;
-    default:
-      return false;
-  }
+// A scenario goal's win expression, from whichever form it came in
+export function winExpressionOf(goal: ScenarioGoal | null | undefined): WinExpression | undefined {
+  if (goal?.win) return goal.win;
+  return goal?.winCondition && { condition: goal.winCondition, label: goal.description };
 }
 
-export const defaultScenarioGoals: Record<ScenarioId, ScenarioGoal> = {
-  classic: {
-    description: "Become wiser with spending.",
-    // We could represent impulse < 10 here, but we'll keep direct logic for now.
-  },
-  student: {
-    description: "Pay off your student debt without burning out.",
-  },
-  startup: {
-    description: "Make your startup financially stable.",
-  },
-  custom: {
-    description: "Follow your custom financial journey.",
-  },
-};
+// The GameState fields a scenario goal is stored in
+export function goalFields(goal: ScenarioGoal | null | undefined): Partial<GameState> {
+  return { goalDescription: goal?.description, win: winExpressionOf(goal), winProgress: {}, lose: goal?.lose, loseStreaks: {} };
+}
 
-export type WinCheckResult = { win: boolean; message?: string };
-export type LoseCheckResult = { lose: boolean; message?: string };
+// The run's own goal back in scenario form, for exports and replays
+export function goalOf(state: GameState): ScenarioGoal | undefined {
+  if (!state.goalDescription) return undefined;
+  return { description: state.goalDescription, win: state.win, ...(state.lose ? { lose: state.lose } : {}) };
+}
 
-export function checkWin(state: GameState): WinCheckResult {
-  const { stats, scenarioId, winCondition, goalDescription } = state;
+// The run's own goal wins over the scenario default
+export function activeWin(state: GameState): WinExpression | undefined {
+  return state.win ?? scenarioDefinition(state.scenarioId).goal.win;
+}
 
-  if (scenarioId === "classic") {
-    if (stats.impulse < 10) {
-      return {
-        win: true,
-        message: goalDescription ?? "You kept your impulse under 10 and became wiser with spending.",
-      };
-    }
-  } else if (scenarioId === "student") {
-    if (stats.debt <= 0 && stats.stress < 80) {
-      return {
-        win: true,
-        message: goalDescription ?? "You paid off your student debt without burning out.",
-      };
-    }
-  } else if (scenarioId === "startup") {
-    if (stats.income > stats.debt) {
-      return {
-        win: true,
-        message: goalDescription ?? "Your startup income surpassed your debt and became more stable.",
-      };
-    }
-  } else if (scenarioId === "custom" && winCondition) {
-    if (evaluateWinCondition(stats, winCondition)) {
-      return {
-        win: true,
-        message: goalDescription ?? "You achieved your custom goal.",
-      };
-    }
-  }
+// The scenario's rules first, then the run's own; the first rule with an id wins
+export function activeLoseRules(state: GameState): LoseRule[] {
+  const rules = [...scenarioDefinition(state.scenarioId).lose, ...(state.lose ?? [])];
+  return rules.filter((rule, i) => rules.findIndex((r) => r.id === rule.id) === i);
+}
 
-  return { win: false };
+// Close of a month: sustained months, milestones and deadlines move on, and so do lose streaks
+export function advanceGoal(state: GameState, close: MonthClose): GameState {
+  const win = activeWin(state);
+  return {
+    ...state,
+    winProgress: win ? advanceWinProgress(win, state.stats, state.winProgress) : state.winProgress,
+    loseStreaks: advanceLoseStreaks(activeLoseRules(state), state.stats, close, state.loseStreaks),
+  };
+}
+
+export function goalProgress(state: GameState): WinPart[] {
+  const win = activeWin(state);
+  return win ? winParts(win, state.stats, state.startingStats, state.winProgress) : [];
+}
+
+export function loseProgress(state: GameState): LosePart[] {
+  return loseParts(activeLoseRules(state), state.loseStreaks);
 }
 
-export function checkLose(stats: GameStats): LoseCheckResult {
-  if (stats.debt > 4 * stats.income) {
+export type WinCheckResult = { win: boolean; message?: string };
+export type LoseCheckResult = { lose: boolean; message?: string };
+
+export function checkWin(state: GameState): WinCheckResult {
+  const win = activeWin(state);
+  if (win && winStatus(win, state.stats, state.winProgress) === "met") {
     return {
-      lose: true,
-      message: "Your debt has grown beyond four times your income and is no longer sustainable.",
+      win: true,
+      message: state.goalDescription ?? scenarioDefinition(state.scenarioId).goal.winMessage,
     };
   }
-  if (stats.stress > 95) {
+  return { win: false };
+}
+
+export function checkLose(state: GameState): LoseCheckResult {
+  const { stats } = state;
+  const broken = brokenRule(activeLoseRules(state), stats, state.loseStreaks);
+  if (broken) return { lose: true, message: broken.message };
+  // A deadline has passed without its part of the goal being met
+  const win = activeWin(state);
+  if (win && winStatus(win, stats, state.winProgress) === "failed") {
+    const parts = goalProgress(state);
+    const missed = parts.find((p) => p.status === "failed" && p.depth > 0) ?? parts[0];
     return {
       lose: true,
-      message: "Your stress has reached a critical level and your wellbeing is at risk.",
+      message: `Time ran out on your goal: "${missed.label}".`,
     };
   }
   return { lose: false };
-}
\ No newline at end of file
+}
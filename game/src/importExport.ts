@@ -0,0 +1,148 @@
+// importExport.ts
+// Run and scenario files players can download, share and load back in.
+// A run file is a whole save (plus its custom events); a scenario file is only
+// what is needed to start a custom game: events, goal and starting stats.
+
+import { createGameState, type GameState, type GameStats } from "./gameState";
+import type { GameEvent } from "./events";
+import { goalFields, goalOf, type ScenarioGoal } from "./goals";
+import { parseWinExpression } from "./winExpression";
+import { parseLoseRules } from "./loseRules";
+import { decodeSave, encodeSave, isWinCondition, statsProblems } from "./saveFormat";
+import { validateEventPack } from "./eventSchema";
+import { systemEntry } from "./gameLog";
+
+const RUN_KIND = "centible-run";
+const SCENARIO_KIND = "centible-scenario";
+const FILE_VERSION = 1;
+
+export type ScenarioFile = {
+  kind: typeof SCENARIO_KIND;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  name: string;
+  events: GameEvent[];
+  goal?: ScenarioGoal;
+  startingStats: GameStats;
+};
+
+export type RunFile = {
+  kind: typeof RUN_KIND;
+  version: number;
+  exportedAt: string;
+  save: unknown; // a save envelope, decoded with the normal save migrations
+  events?: GameEvent[]; // the custom pack, for custom runs
+};
+
+export type ImportResult =
+  | { ok: true; kind: "run"; game: GameState; events?: GameEvent[]; warnings: string[] }
+  | { ok: true; kind: "scenario"; scenario: ScenarioFile; warnings: string[] }
+  | { ok: false; error: string };
+
+export function exportRun(game: GameState, events: GameEvent[] = []): RunFile {
+  return {
+    kind: RUN_KIND,
+    version: FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    save: JSON.parse(encodeSave(game)),
+    ...(game.scenarioId === "custom" && events.length > 0 ? { events } : {}),
+  };
+}
+
+export function exportScenario(name: string, game: GameState, events: GameEvent[]): ScenarioFile {
+  return {
+    kind: SCENARIO_KIND,
+    version: FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    name,
+    events,
+    ...(game.goalDescription ? { goal: goalOf(game) } : {}),
+    startingStats: game.startingStats,
+  };
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+function readEvents(value: unknown): { events: GameEvent[]; warnings: string[] } | string {
+  const { events, problems } = validateEventPack(value);
+  if (events.length === 0) return `No usable events in the file${problems.length ? ` (${problems[0]})` : ""}.`;
+  return { events, warnings: problems.map((p) => `Skipped event ${p}`) };
+}
+
+export function readImportFile(raw: string): ImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: "File is not valid JSON." };
+  }
+  if (!isRecord(parsed)) return { ok: false, error: "File is not a Centsible export." };
+  if (typeof parsed.version !== "number" || parsed.version > FILE_VERSION) {
+    return { ok: false, error: "File is from a newer version of the game." };
+  }
+
+  if (parsed.kind === RUN_KIND) {
+    const decoded = decodeSave(JSON.stringify(parsed.save));
+    if (!decoded.ok) return { ok: false, error: decoded.error };
+    if (parsed.events === undefined) return { ok: true, kind: "run", game: decoded.game, warnings: [] };
+    const pack = readEvents(parsed.events);
+    if (typeof pack === "string") return { ok: false, error: pack };
+    return { ok: true, kind: "run", game: decoded.game, events: pack.events, warnings: pack.warnings };
+  }
+
+  if (parsed.kind === SCENARIO_KIND) {
+    if (typeof parsed.name !== "string" || !parsed.name.trim()) return { ok: false, error: "Scenario has no name." };
+    const problems = statsProblems(parsed.startingStats, "startingStats");
+    if (problems.length > 0) return { ok: false, error: `Scenario is damaged: ${problems[0]}` };
+    const goal = parsed.goal;
+    if (
+      goal !== undefined &&
+      !(
+        isRecord(goal) &&
+        typeof goal.description === "string" &&
+        (goal.winCondition === undefined || isWinCondition(goal.winCondition)) &&
+        (goal.win === undefined || parseWinExpression(goal.win) !== null) &&
+        (goal.lose === undefined || parseLoseRules(goal.lose) !== null)
+      )
+    ) {
+      return { ok: false, error: "Scenario goal is malformed." };
+    }
+    const pack = readEvents(parsed.events);
+    if (typeof pack === "string") return { ok: false, error: pack };
+    const scenario: ScenarioFile = {
+      kind: SCENARIO_KIND,
+      version: parsed.version,
+      exportedAt: String(parsed.exportedAt ?? ""),
+      name: parsed.name.trim(),
+      events: pack.events,
+      goal: goal as ScenarioFile["goal"],
+      startingStats: parsed.startingStats as GameStats,
+    };
+    return { ok: true, kind: "scenario", scenario, warnings: pack.warnings };
+  }
+
+  return { ok: false, error: "File is not a Centsible run or scenario." };
+}
+
+// A fresh custom game for an imported scenario (its events are installed separately)
+export function gameFromScenario(scenario: ScenarioFile): GameState {
+  return createGameState("custom", {
+    stats: scenario.startingStats,
+    log: [systemEntry(`Imported scenario "${scenario.name}" with ${scenario.events.length} events.`, scenario.startingStats.month)],
+    ...goalFields(scenario.goal),
+  });
+}
+
+// Save a JSON file through the browser's download prompt
+export function downloadJson(filename: string, data: unknown) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function fileSlug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 40) || "untitled";
+}
@@ -0,0 +1,149 @@
+// ledger.ts
+// Named recurring obligations: loans, installments, subscriptions and revolving credit.
+// stats.debt stays the aggregate the rest of the game reads; the ledger says what it is made of.
+
+import type { LogLine } from "./gameLog";
+
+export type ObligationKind = "loan" | "installment" | "subscription" | "credit";
+
+export type Obligation = {
+  id: string;
+  name: string;
+  kind: ObligationKind;
+  balance: number; // outstanding principal; always 0 for subscriptions
+  apr: number; // annual rate, e.g. 0.12 for 12%
+  minimumPayment: number; // charged monthly; the fee for subscriptions
+  endMonth?: number; // last month it is charged (subscriptions, fixed-term installments)
+};
+
+export type LedgerAction =
+  | { type: "add"; obligation: Obligation }
+  | { type: "refinance"; id: string; apr?: number; minimumPayment?: number }
+  | { type: "cancel"; id: string }; // subscriptions only; debts have to be paid off
+
+export type AmortizationResult = {
+  obligations: Obligation[];
+  payments: number; // total cash due this month
+  interest: number;
+  logs: LogLine[];
+};
+
+// Untracked debt (deficits, event effects) lands here, at the old flat 1% a month
+export const REVOLVING_ID = "credit-card";
+const revolving = (balance: number): Obligation => ({
+  id: REVOLVING_ID,
+  name: "Credit card",
+  kind: "credit",
+  balance,
+  apr: 0.12,
+  minimumPayment: 0,
+});
+
+export const isDebt = (o: Obligation) => o.kind !== "subscription";
+
+export function ledgerDebt(obligations: Obligation[]): number {
+  return obligations.filter(isDebt).reduce((sum, o) => sum + o.balance, 0);
+}
+
+// Make the ledger add up to the aggregate debt stat after events nudged it:
+// new debt goes on the credit card, repayments go to the highest APR first
+export function reconcileDebt(obligations: Obligation[], debt: number): Obligation[] {
+  const diff = Math.round(debt - ledgerDebt(obligations));
+  if (diff === 0) return obligations;
+
+  if (diff > 0) {
+    const card = obligations.find((o) => o.id === REVOLVING_ID);
+    return card
+      ? obligations.map((o) => (o === card ? { ...o, balance: o.balance + diff } : o))
+      : [...obligations, revolving(diff)];
+  }
+
+  let remaining = -diff;
+  const payoffOrder = obligations.filter(isDebt).sort((a, b) => b.apr - a.apr);
+  const paid = new Map<Obligation, number>();
+  for (const o of payoffOrder) {
+    if (remaining <= 0) break;
+    const amount = Math.min(o.balance, remaining);
+    paid.set(o, amount);
+    remaining -= amount;
+  }
+  return obligations
+    .map((o) => (paid.has(o) ? { ...o, balance: o.balance - paid.get(o)! } : o))
+    .filter((o) => !isDebt(o) || o.balance > 0);
+}
+
+// One month of interest and payments; paid-off debts and ended subscriptions drop out
+export function amortize(obligations: Obligation[], month: number): AmortizationResult {
+  const logs: LogLine[] = [];
+  let payments = 0;
+  let interest = 0;
+  const next: Obligation[] = [];
+
+  for (const o of obligations) {
+    if (o.endMonth !== undefined && month > o.endMonth) {
+      logs.push({ category: "debt", text: `${o.name} ended.` });
+      continue;
+    }
+    if (o.kind === "subscription") {
+      payments += o.minimumPayment;
+      next.push(o);
+      continue;
+    }
+    const accrued = Math.round(o.balance * (o.apr / 12));
+    const due = o.balance + accrued;
+    const payment = Math.min(o.minimumPayment, due);
+    interest += accrued;
+    payments += payment;
+    if (accrued > 0) logs.push({ category: "interest", text: `${o.name} interest: +$${accrued}`, deltas: { debt: accrued } });
+    if (due - payment <= 0) {
+      logs.push({ category: "debt", text: `${o.name} is paid off!` });
+      continue;
+    }
+    next.push({ ...o, balance: due - payment });
+  }
+
+  if (payments > 0) logs.push({ category: "payments", text: `Obligation payments: -$${payments}`, deltas: { savings: -payments } });
+  return { obligations: next, payments, interest, logs };
+}
+
+export function applyLedgerActions(
+  obligations: Obligation[],
+  actions: LedgerAction[],
+  month: number
+): { obligations: Obligation[]; logs: LogLine[] } {
+  const logs: LogLine[] = [];
+  let next = obligations;
+  for (const action of actions) {
+    if (action.type === "add") {
+      const taken = next.some((o) => o.id === action.obligation.id);
+      const obligation = taken ? { ...action.obligation, id: `${action.obligation.id}-m${month}` } : action.obligation;
+      next = [...next, obligation];
+      logs.push(
+        obligation.kind === "subscription"
+          ? { category: "debt", text: `New subscription: ${obligation.name} ($${obligation.minimumPayment}/month).` }
+          : {
+              category: "debt",
+              text: `New ${obligation.kind}: ${obligation.name} ($${obligation.balance} at ${(obligation.apr * 100).toFixed(1)}% APR).`,
+              deltas: { debt: obligation.balance },
+            }
+      );
+    } else if (action.type === "refinance") {
+      next = next.map((o) =>
+        o.id === action.id
+          ? { ...o, apr: action.apr ?? o.apr, minimumPayment: action.minimumPayment ?? o.minimumPayment }
+          : o
+      );
+      const target = next.find((o) => o.id === action.id);
+      if (target) {
+        logs.push({ category: "debt", text: `${target.name} refinanced: ${(target.apr * 100).toFixed(1)}% APR, $${target.minimumPayment}/month.` });
+      }
+    } else {
+      const target = next.find((o) => o.id === action.id && o.kind === "subscription");
+      if (target) {
+        next = next.filter((o) => o !== target);
+        logs.push({ category: "debt", text: `Cancelled ${target.name}.` });
+      }
+    }
+  }
+  return { obligations: next, logs };
+}
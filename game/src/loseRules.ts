@@ -0,0 +1,106 @@
+// loseRules.ts
+// How a run can be lost, as data on each scenario and on custom goals. A rule is a condition
+// on the stats or a missed payment, optionally held for several month-ends in a row, e.g.
+//   { id: "bankrupt", condition: { stat: "savings", operator: "<=", value: 0 }, months: 3, message: "..." }
+//   { id: "default", missedPayment: true, months: 3, message: "..." }
+//
+// Streaks live in GameState.loseStreaks, keyed by rule id; advanceLoseStreaks updates them
+// when a month closes.
+
+import { evaluateCondition, parseCondition, type Condition } from "./conditions";
+import type { GameStats } from "./gameState";
+import { describeCondition } from "./winExpression";
+
+export type LoseRule = {
+  id: string;
+  message: string; // shown when the run ends this way
+  label?: string; // sidebar wording; defaults to a description of the trigger
+  // month-ends in a row the trigger must hold; a condition without it ends the run at once
+  months?: number;
+} & ({ condition: Condition } | { missedPayment: true });
+
+export type LoseStreaks = Record<string, number>;
+
+// One line of the "lose if" list in the sidebar
+export type LosePart = {
+  label: string;
+  detail?: string; // "1 of 3 months", while a streak is running
+  fraction?: number;
+};
+
+// What a month close tells the rules beyond the stats
+export type MonthClose = { missedPayment: boolean };
+
+// Missed payments only happen at a month close, so they always count as a streak
+const streakLength = (rule: LoseRule) => rule.months ?? ("missedPayment" in rule ? 1 : undefined);
+
+function holds(rule: LoseRule, stats: GameStats, close: MonthClose): boolean {
+  return "condition" in rule ? evaluateCondition(rule.condition, stats) : close.missedPayment;
+}
+
+// Close of a month: each streak grows while its trigger holds and resets when it does not
+export function advanceLoseStreaks(rules: LoseRule[], stats: GameStats, close: MonthClose, streaks: LoseStreaks): LoseStreaks {
+  const next: LoseStreaks = {};
+  for (const rule of rules) {
+    if (streakLength(rule) === undefined) continue;
+    if (holds(rule, stats, close)) next[rule.id] = (streaks[rule.id] ?? 0) + 1;
+  }
+  return next;
+}
+
+// The first rule that ends the run, in the order the scenario lists them
+export function brokenRule(rules: LoseRule[], stats: GameStats, streaks: LoseStreaks): LoseRule | undefined {
+  return rules.find((rule) => {
+    const months = streakLength(rule);
+    if (months === undefined) return "condition" in rule && evaluateCondition(rule.condition, stats);
+    return (streaks[rule.id] ?? 0) >= months;
+  });
+}
+
+export function describeLoseRule(rule: LoseRule): string {
+  const months = streakLength(rule);
+  if ("missedPayment" in rule) {
+    return months === 1 ? "Miss a payment" : `Miss payments ${months} months in a row`;
+  }
+  const condition = describeCondition(rule.condition);
+  return months === undefined ? condition : `${condition} for ${months} month${months === 1 ? "" : "s"} in a row`;
+}
+
+export function loseParts(rules: LoseRule[], streaks: LoseStreaks): LosePart[] {
+  return rules.map((rule) => {
+    const label = rule.label ?? describeLoseRule(rule);
+    const months = streakLength(rule);
+    const streak = streaks[rule.id] ?? 0;
+    if (months === undefined || months === 1 || streak === 0) return { label };
+    return { label, detail: `${Math.min(streak, months)} of ${months} months`, fraction: Math.min(1, streak / months) };
+  });
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isMonthCount = (v: unknown): v is number => Number.isInteger(v) && (v as number) > 0;
+
+// Validate untrusted JSON (scenario files, saves). Returns null when malformed.
+export function parseLoseRules(value: unknown): LoseRule[] | null {
+  if (!Array.isArray(value)) return null;
+  const rules: LoseRule[] = [];
+  for (const item of value) {
+    if (!isRecord(item) || typeof item.id !== "string" || !item.id || typeof item.message !== "string") return null;
+    if (rules.some((r) => r.id === item.id)) return null;
+    if (item.label !== undefined && typeof item.label !== "string") return null;
+    if (item.months !== undefined && !isMonthCount(item.months)) return null;
+    const base = {
+      id: item.id,
+      message: item.message,
+      ...(item.label === undefined ? {} : { label: item.label as string }),
+      ...(item.months === undefined ? {} : { months: item.months as number }),
+    };
+    if (item.missedPayment === true) {
+      rules.push({ ...base, missedPayment: true });
+      continue;
+    }
+    const condition = parseCondition(item.condition);
+    if (!condition) return null;
+    rules.push({ ...base, condition });
+  }
+  return rules;
+}
@@ -1,30 +1,229 @@
 // persistence.ts
-import type { GameState } from "./gameState";
+import type { GameState, ScenarioId } from "./gameState";
+import { decodeSave, encodeSave } from "./saveFormat";
+import { setCustomEvents, type GameEvent } from "./events";
+import { validateEventPack } from "./eventSchema";
+import { seedFromString } from "./rng";
+import { isKnownScenario, scenarioDefinition } from "./scenarioRegistry";
 
-const KEY = "centible_game_v1";
+const INDEX_KEY = "centible_slots"; // SlotMeta[]
+const ACTIVE_KEY = "centible_active_slot";
+const SLOT_PREFIX = "centible_slot_";
+const BACKUP_PREFIX = "centible_game_backup_";
+const PACK_PREFIX = "centible_pack_"; // custom event packs, shared by every slot that plays them
+// Single-save keys from before slots; imported into a slot on first use
+const LEGACY_KEYS = ["centible_game", "centible_game_v1"];
 
-export function saveGame(game: GameState) {
-  try {
-    localStorage.setItem(KEY, JSON.stringify(game));
-  } catch {
-    // no-op
-  }
+export type LoadResult =
+  | { status: "empty" }
+  | { status: "ok"; game: GameState }
+  // The save could not be read; the raw text was copied to backupKey before anything overwrites it
+  | { status: "error"; error: string; backupKey?: string };
+
+export type SlotMeta = {
+  id: string;
+  name: string;
+  scenarioId: ScenarioId;
+  month: number;
+  savings: number;
+  debt: number;
+  happiness: number;
+  stress: number;
+  gameOver: boolean;
+  hardcore?: boolean;
+  customPackId?: string;
+  lastPlayed: string; // ISO timestamp
+};
+
+// Anything with the localStorage API (tests, other browsers' storage, in-memory maps)
+export type KeyValueStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export type SaveStore = {
+  list: () => SlotMeta[];
+  activeSlotId: () => string | null;
+  load: (slotId: string) => LoadResult;
+  save: (slotId: string, game: GameState, name?: string) => SlotMeta;
+  duplicate: (slotId: string) => SlotMeta | null;
+  remove: (slotId: string) => void;
+  savePack: (events: GameEvent[]) => string; // returns the pack id
+  loadPack: (packId: string) => GameEvent[] | null;
+};
+
+export function newSlotId(): string {
+  return `${Date.now().toString(36)}${Math.floor(Math.random() * 1296).toString(36)}`;
 }
 
-export function loadGame(): GameState | null {
-  try {
-    const raw = localStorage.getItem(KEY);
-    if (!raw) return null;
-    return JSON.parse(raw) as GameState;
-  } catch {
-    return null;
-  }
+export function defaultSlotName(scenarioId: ScenarioId, date: Date = new Date()): string {
+  return `${isKnownScenario(scenarioId) ? scenarioDefinition(scenarioId).name : scenarioId} · ${date.toLocaleDateString(undefined, { month: "short", day: "numeric" })}`;
 }
 
-export function clearGame() {
-  try {
-    localStorage.removeItem(KEY);
-  } catch {
-    // no-op
+export function createSaveStore(storage: KeyValueStorage): SaveStore {
+  const read = (key: string): string | null => {
+    try {
+      return storage.getItem(key);
+    } catch {
+      return null;
+    }
+  };
+  const write = (key: string, value: string) => {
+    try {
+      storage.setItem(key, value);
+    } catch {
+      // no-op (quota exceeded or storage disabled)
+    }
+  };
+  const remove = (key: string) => {
+    try {
+      storage.removeItem(key);
+    } catch {
+      // no-op
+    }
+  };
+  const readJson = <T>(key: string, fallback: T): T => {
+    const raw = read(key);
+    if (!raw) return fallback;
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      return fallback;
+    }
+  };
+
+  const slotKey = (id: string) => `${SLOT_PREFIX}${id}`;
+  const historyKey = (id: string) => `${SLOT_PREFIX}${id}_history`; // rewind saves from older builds
+  const readIndex = () => readJson<SlotMeta[]>(INDEX_KEY, []);
+  const writeIndex = (slots: SlotMeta[]) => write(INDEX_KEY, JSON.stringify(slots));
+
+  const decode = (raw: string | null): LoadResult => {
+    if (!raw) return { status: "empty" };
+    const decoded = decodeSave(raw);
+    if (decoded.ok) return { status: "ok", game: decoded.game };
+    const backupKey = `${BACKUP_PREFIX}${new Date().toISOString()}`;
+    write(backupKey, raw);
+    return { status: "error", error: decoded.error, backupKey: read(backupKey) ? backupKey : undefined };
+  };
+
+  const metaFor = (id: string, name: string, game: GameState): SlotMeta => ({
+    id,
+    name,
+    scenarioId: game.scenarioId,
+    month: game.stats.month,
+    savings: game.stats.savings,
+    debt: game.stats.debt,
+    happiness: game.stats.happiness,
+    stress: game.stats.stress,
+    gameOver: game.gameOver,
+    ...(game.hardcore ? { hardcore: true } : {}),
+    customPackId: game.customPackId,
+    lastPlayed: new Date().toISOString(),
+  });
+
+  // Drop a pack once no slot plays it any more
+  const prunePack = (packId: string | undefined, slots: SlotMeta[]) => {
+    if (packId && !slots.some((s) => s.customPackId === packId)) remove(`${PACK_PREFIX}${packId}`);
+  };
+
+  const store: SaveStore = {
+    list: () => [...readIndex()].sort((a, b) => b.lastPlayed.localeCompare(a.lastPlayed)),
+
+    activeSlotId: () => read(ACTIVE_KEY),
+
+    load: (slotId) => {
+      const result = decode(read(slotKey(slotId)));
+      if (result.status === "ok") write(ACTIVE_KEY, slotId);
+      return result;
+    },
+
+    save: (slotId, game, name) => {
+      const slots = readIndex();
+      const existing = slots.find((s) => s.id === slotId);
+      const meta = metaFor(slotId, name ?? existing?.name ?? defaultSlotName(game.scenarioId), game);
+      write(slotKey(slotId), encodeSave(game));
+      const next = existing ? slots.map((s) => (s.id === slotId ? meta : s)) : [...slots, meta];
+      writeIndex(next);
+      write(ACTIVE_KEY, slotId);
+      if (existing?.customPackId !== meta.customPackId) prunePack(existing?.customPackId, next);
+      return meta;
+    },
+
+    duplicate: (slotId) => {
+      const source = readIndex().find((s) => s.id === slotId);
+      const raw = read(slotKey(slotId));
+      if (!source || !raw) return null;
+      const copy: SlotMeta = { ...source, id: newSlotId(), name: `${source.name} (copy)`, lastPlayed: new Date().toISOString() };
+      write(slotKey(copy.id), raw);
+      writeIndex([...readIndex(), copy]);
+      return copy;
+    },
+
+    remove: (slotId) => {
+      const slots = readIndex();
+      const kept = slots.filter((s) => s.id !== slotId);
+      remove(slotKey(slotId));
+      remove(historyKey(slotId));
+      writeIndex(kept);
+      if (read(ACTIVE_KEY) === slotId) remove(ACTIVE_KEY);
+      prunePack(slots.find((s) => s.id === slotId)?.customPackId, kept);
+    },
+
+    // Packs are keyed by their content, so saving the same pack twice reuses one entry
+    savePack: (events) => {
+      const raw = JSON.stringify(events);
+      const packId = (seedFromString(raw) >>> 0).toString(36);
+      write(`${PACK_PREFIX}${packId}`, raw);
+      return packId;
+    },
+
+    loadPack: (packId) => {
+      const { events } = validateEventPack(readJson<unknown>(`${PACK_PREFIX}${packId}`, null));
+      return events.length > 0 ? events : null;
+    },
+  };
+
+  // One-time import of the pre-slot single save
+  if (!read(INDEX_KEY)) {
+    const legacyKey = LEGACY_KEYS.find((k) => read(k));
+    if (legacyKey) {
+      const result = decode(read(legacyKey));
+      if (result.status === "ok") store.save(newSlotId(), result.game);
+      else writeIndex([]); // raw text is kept as a backup by decode()
+      LEGACY_KEYS.forEach(remove);
+    }
   }
+  // Undo now lives in the save itself
+  readIndex().forEach((s) => remove(historyKey(s.id)));
+
+  return store;
+}
+
+export const saveStore = createSaveStore(
+  typeof localStorage !== "undefined"
+    ? localStorage
+    : { getItem: () => null, setItem: () => undefined, removeItem: () => undefined }
+);
+
+// Store a generated pack for the runs that play it; returns the pack id
+export function storeCustomPack(events: GameEvent[]): string {
+  return saveStore.savePack(events);
+}
+
+// Install an imported pack as the custom events and tag the game with its id
+export function installCustomPack(game: GameState, events: GameEvent[]): GameState {
+  setCustomEvents(events);
+  return { ...game, customPackId: storeCustomPack(events) };
+}
+
+// Reinstall the stored pack of a custom run; false means it has to be generated again
+export function restoreCustomPack(game: GameState): boolean {
+  if (game.scenarioId !== "custom") return true;
+  const events = game.customPackId ? saveStore.loadPack(game.customPackId) : null;
+  if (!events) return false;
+  setCustomEvents(events);
+  return true;
+}
+
+// Resume whatever slot was played last
+export function loadActiveGame(): { slotId: string | null; result: LoadResult } {
+  const slotId = saveStore.activeSlotId() ?? saveStore.list()[0]?.id ?? null;
+  return { slotId, result: slotId ? saveStore.load(slotId) : { status: "empty" } };
 }
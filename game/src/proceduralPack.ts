@@ -0,0 +1,524 @@
+// proceduralPack.ts
+// Offline custom scenarios: a balanced 20-event pack built from parameterized
+// templates, scaled to the survey profile the same way the server prompt asks the AI to.
+
+import type { GameEvent } from "./events";
+import type { GameStats } from "./gameState";
+import { initialStatsForScenario } from "./gameState";
+import type { ScenarioGoal } from "./goals";
+import { buildDescription, goalFromText, impulseForRisk } from "./goalParser";
+import { createRng, seedFromString, type Rng } from "./rng";
+
+export type SurveyProfile = {
+  knowledge: string; // beginner | intermediate | advanced
+  risk: string; // low | medium | high
+  region: string;
+  income: number;
+  fixedExpenses: number;
+  savings: number;
+  debt: number;
+  goals: string;
+};
+
+export type GeneratedScenario = { events: GameEvent[]; goal: ScenarioGoal };
+
+type Tag = GameEvent["tag"];
+
+const TAGS: Tag[] = ["career", "lifestyle", "social", "finance", "risk"];
+const EVENTS_PER_TAG = 4;
+const KNOWLEDGE_LEVELS = ["beginner", "intermediate", "advanced"];
+
+const roundTo = (n: number, step: number) => Math.round(n / step) * step;
+
+// Money helpers; each takes a share in the prompt's 5-25% band
+type Scale = {
+  cash: (share: number) => number; // one-off savings deltas
+  income: (share: number) => number;
+  fixed: (share: number) => number;
+  debt: (share: number) => number;
+  risky: (share: number) => number; // cash scaled by risk tolerance
+  place: string;
+};
+
+function scaleFor(profile: SurveyProfile): Scale {
+  const income = Math.max(0, profile.income);
+  const fixed = Math.max(0, profile.fixedExpenses);
+  const budget = income - fixed;
+  // Small or negative budgets map the share onto $50-500 instead
+  const cash = (share: number) =>
+    budget >= 2000 ? roundTo(budget * share, 10) : roundTo(50 + ((share - 0.05) / 0.2) * 450, 10);
+  const riskFactor = profile.risk === "high" ? 1.3 : profile.risk === "low" ? 0.8 : 1;
+  return {
+    cash,
+    income: (share) => Math.max(10, Math.min(1500, roundTo(income * share, 10))),
+    fixed: (share) => Math.max(10, Math.min(1500, roundTo(fixed * share, 10))),
+    debt: (share) => (profile.debt > 0 ? Math.max(10, Math.min(2000, roundTo(profile.debt * share, 10))) : cash(share)),
+    risky: (share) => roundTo(cash(share) * riskFactor, 10),
+    place: profile.region.trim() || "town",
+  };
+}
+
+type Template = {
+  slug: string;
+  tag: Tag;
+  minKnowledge?: number; // index into KNOWLEDGE_LEVELS
+  build: (s: Scale) => Omit<GameEvent, "id" | "tag">;
+};
+
+const templates: Template[] = [
+  // --- career ---
+  {
+    slug: "overtime",
+    tag: "career",
+    build: (s) => ({
+      title: "Overtime Available",
+      description: "Your manager needs people to cover extra shifts this month.",
+      cooldown: 3,
+      choices: [
+        { id: "take", label: "Take the overtime", effects: { savings: s.cash(0.2), stress: 6, happiness: -2 }, log: "You worked the overtime and banked the pay.", explain: "Extra hours bring in cash, but the longer weeks wear you down." },
+        { id: "pass", label: "Keep your normal hours", effects: { stress: -2 }, log: "You kept your normal schedule.", explain: "Protecting your time keeps stress in check." },
+      ],
+    }),
+  },
+  {
+    slug: "certification",
+    tag: "career",
+    build: (s) => ({
+      title: "Certification Course",
+      description: "A certification in your field could lead to better pay.",
+      cooldown: 6,
+      choices: [
+        { id: "enroll", label: "Enroll in the course", effects: { savings: -s.cash(0.15), income: s.income(0.08), stress: 4 }, log: "You earned the certification and your pay went up.", explain: "Paying to learn costs cash now and raises what you earn every month." },
+        { id: "skip", label: "Skip it for now", effects: { happiness: 1 }, log: "You passed on the course.", explain: "You keep your cash and evenings, but your pay stays where it is." },
+      ],
+    }),
+  },
+  {
+    slug: "raise",
+    tag: "career",
+    build: (s) => ({
+      title: "Performance Review",
+      description: "Review season is here and you have had a strong year.",
+      cooldown: 8,
+      choices: [
+        { id: "ask", label: "Ask for a raise", effects: { income: s.income(0.1), stress: 5 }, log: "You negotiated a raise.", explain: "Asking is uncomfortable, but a raise pays off every single month." },
+        { id: "wait", label: "Wait for them to offer", effects: { income: s.income(0.03), happiness: -1 }, log: "You waited and got the standard bump.", explain: "Staying quiet usually means a smaller increase." },
+      ],
+    }),
+  },
+  {
+    slug: "freelance",
+    tag: "career",
+    build: (s) => ({
+      title: "Freelance Request",
+      description: `A small business in ${s.place} wants to hire you for a weekend project.`,
+      cooldown: 4,
+      choices: [
+        { id: "accept", label: "Accept the project", effects: { savings: s.cash(0.15), stress: 4, happiness: 1 }, log: "You finished the freelance project and got paid.", explain: "Side work is a quick way to add cash, at the cost of your weekend." },
+        { id: "decline", label: "Politely decline", effects: { stress: -1 }, log: "You turned the project down.", explain: "Rest keeps you sharp for your main job." },
+      ],
+    }),
+  },
+  {
+    slug: "commute",
+    tag: "career",
+    build: (s) => ({
+      title: "Remote Work Option",
+      description: "Your team now lets people work from home a few days a week.",
+      cooldown: 8,
+      choices: [
+        { id: "remote", label: "Work from home more", effects: { savings: s.cash(0.05), happiness: 2, stress: -2 }, log: "You skipped the commute and kept the fares.", explain: "Fewer trips to work save a little cash and a lot of stress." },
+        { id: "office", label: "Stay in the office", effects: { happiness: 1 }, log: "You kept going into the office.", explain: "Being around coworkers has its own benefits." },
+      ],
+    }),
+  },
+  {
+    slug: "job-offer",
+    tag: "career",
+    minKnowledge: 1,
+    build: (s) => ({
+      title: "Competing Job Offer",
+      description: "A recruiter offers you a role with higher pay and a tougher workload.",
+      cooldown: 10,
+      condition: { month: { min: 4 } },
+      choices: [
+        { id: "switch", label: "Take the new job", effects: { income: s.income(0.15), stress: 7, happiness: -1 }, log: "You switched jobs for higher pay.", explain: "More pay every month, but the new role demands more of you." },
+        { id: "stay", label: "Stay where you are", effects: { stress: -1, happiness: 1 }, log: "You stayed in your current role.", explain: "Familiar work is easier, even if it pays less." },
+      ],
+    }),
+  },
+
+  // --- lifestyle ---
+  {
+    slug: "sale",
+    tag: "lifestyle",
+    build: (s) => ({
+      title: "Flash Sale",
+      description: `A shop in ${s.place} is running a one-day sale on things you have been eyeing.`,
+      cooldown: 3,
+      condition: { stat: "savings", operator: ">", value: s.cash(0.1) * 3 },
+      choices: [
+        { id: "buy", label: "Buy something nice", effects: { savings: -s.cash(0.1), happiness: 4, impulse: 4 }, log: "You treated yourself.", explain: "A purchase lifts your mood but makes the next impulse buy easier." },
+        { id: "skip", label: "Walk away", effects: { impulse: -3, happiness: -1 }, log: "You walked away from the sale.", explain: "Saying no builds the habit of spending on purpose." },
+      ],
+    }),
+  },
+  {
+    slug: "takeout",
+    tag: "lifestyle",
+    build: (s) => ({
+      title: "Takeout Habit",
+      description: "Busy weeks have you ordering dinner most nights.",
+      cooldown: 4,
+      choices: [
+        { id: "cook", label: "Cook at home this month", effects: { savings: s.cash(0.1), happiness: -1, impulse: -2 }, log: "You cooked at home and kept the difference.", explain: "Home cooking costs a fraction of takeout." },
+        { id: "order", label: "Keep ordering in", effects: { savings: -s.cash(0.05), happiness: 2, impulse: 2 }, log: "You kept ordering takeout.", explain: "Convenience feels good, but small orders add up fast." },
+      ],
+    }),
+  },
+  {
+    slug: "gym",
+    tag: "lifestyle",
+    build: (s) => ({
+      title: "Gym Membership",
+      description: "A new gym opened nearby with a monthly plan.",
+      cooldown: 8,
+      choices: [
+        { id: "join", label: "Sign up", effects: { fixedExpenses: s.fixed(0.05), happiness: 3, stress: -3 }, log: "You joined the gym.", explain: "Regular exercise lowers stress but adds a monthly bill." },
+        { id: "outside", label: "Exercise outside instead", effects: { stress: -1 }, log: "You started working out for free.", explain: "Free exercise still helps, just a little less." },
+      ],
+    }),
+  },
+  {
+    slug: "pay-later",
+    tag: "lifestyle",
+    build: (s) => {
+      const price = s.cash(0.25);
+      return {
+        title: "Buy Now, Pay Later",
+        description: "The new laptop you want can be split into four interest-free payments.",
+        cooldown: 8,
+        choices: [
+          {
+            id: "split",
+            label: "Split it into payments",
+            effects: { happiness: 3, impulse: 3 },
+            ledger: [{ type: "add", obligation: { id: "pay-later-laptop", name: "Laptop payments", kind: "installment", balance: price, apr: 0, minimumPayment: roundTo(price / 4, 5) } }],
+            log: "You bought the laptop on a payment plan.",
+            explain: "No interest, but four monthly payments now come out of your budget.",
+          },
+          { id: "wait", label: "Save up for it first", effects: { impulse: -2, happiness: -1 }, log: "You decided to save up first.", explain: "Waiting keeps your monthly budget free." },
+        ],
+      };
+    },
+  },
+  {
+    slug: "phone",
+    tag: "lifestyle",
+    build: (s) => ({
+      title: "Cracked Phone Screen",
+      description: "Your phone screen cracked and the latest model is on display.",
+      cooldown: 8,
+      choices: [
+        { id: "upgrade", label: "Upgrade on credit", effects: { debt: s.debt(0.08), happiness: 3, impulse: 2 }, log: "You put a new phone on credit.", explain: "You get the new phone now and pay interest on it later." },
+        { id: "repair", label: "Repair the screen", effects: { savings: -s.cash(0.05), impulse: -1 }, log: "You repaired your old phone.", explain: "A repair costs far less than a new phone." },
+      ],
+    }),
+  },
+  {
+    slug: "hobby",
+    tag: "lifestyle",
+    build: (s) => ({
+      title: "New Hobby",
+      description: "You have been wanting to pick up a creative hobby.",
+      cooldown: 6,
+      choices: [
+        { id: "gear", label: "Buy quality gear", effects: { savings: -s.cash(0.15), happiness: 5, stress: -3 }, log: "You went all in on the new hobby.", explain: "Good gear is fun, and pricey." },
+        { id: "basic", label: "Start with the basics", effects: { savings: -s.cash(0.05), happiness: 3, stress: -2 }, log: "You started small.", explain: "Most of the fun for a fraction of the cost." },
+      ],
+    }),
+  },
+
+  // --- social ---
+  {
+    slug: "birthday",
+    tag: "social",
+    build: (s) => ({
+      title: "Birthday Dinner",
+      description: `A close friend is celebrating at a nice restaurant in ${s.place}.`,
+      cooldown: 4,
+      choices: [
+        { id: "go", label: "Go to the dinner", effects: { savings: -s.cash(0.08), happiness: 4 }, log: "You celebrated with your friend.", explain: "Time with friends matters, and so does the bill." },
+        { id: "gift", label: "Send a gift instead", effects: { savings: -s.cash(0.05), happiness: 1 }, log: "You sent a gift.", explain: "A thoughtful gift costs less than a night out." },
+      ],
+    }),
+  },
+  {
+    slug: "trip",
+    tag: "social",
+    build: (s) => ({
+      title: "Group Trip",
+      description: "Your friends are planning a long weekend away.",
+      cooldown: 6,
+      condition: { stat: "savings", operator: ">", value: s.cash(0.25) * 2 },
+      choices: [
+        { id: "join", label: "Join the trip", effects: { savings: -s.cash(0.25), happiness: 6, stress: -5 }, log: "You went on the trip.", explain: "A real break recharges you, at a real price." },
+        { id: "day", label: "Join for one day only", effects: { savings: -s.cash(0.08), happiness: 3, stress: -2 }, log: "You joined for a day.", explain: "A shorter visit keeps most of the fun and less of the cost." },
+      ],
+    }),
+  },
+  {
+    slug: "loan-friend",
+    tag: "social",
+    build: (s) => ({
+      title: "Friend Needs a Loan",
+      description: "A friend asks to borrow money until their next paycheck.",
+      cooldown: 6,
+      choices: [
+        { id: "lend", label: "Lend the money", effects: { savings: -s.cash(0.15), happiness: 2, stress: 2 }, log: "You lent your friend money.", explain: "Helping feels good, but the money may not come back soon." },
+        { id: "no", label: "Say no kindly", effects: { stress: 1, happiness: -1 }, log: "You said no.", explain: "Your cash stays put, at a small social cost." },
+      ],
+    }),
+  },
+  {
+    slug: "wedding",
+    tag: "social",
+    build: (s) => ({
+      title: "Wedding Invitation",
+      description: "A cousin is getting married out of town.",
+      cooldown: 10,
+      choices: [
+        { id: "attend", label: "Travel to the wedding", effects: { savings: -s.cash(0.2), happiness: 5 }, log: "You went to the wedding.", explain: "Travel, a gift and an outfit add up quickly." },
+        { id: "regrets", label: "Send your regrets and a gift", effects: { savings: -s.cash(0.05), happiness: -2 }, log: "You sent a gift instead.", explain: "You save on travel but miss the celebration." },
+      ],
+    }),
+  },
+  {
+    slug: "volunteer",
+    tag: "social",
+    build: (s) => ({
+      title: "Community Festival",
+      description: `A festival in ${s.place} is looking for volunteers.`,
+      cooldown: 5,
+      choices: [
+        { id: "volunteer", label: "Volunteer for a shift", effects: { happiness: 3, stress: -2 }, log: "You volunteered at the festival.", explain: "Giving your time costs nothing and lifts your mood." },
+        { id: "attend", label: "Buy tickets and enjoy it", effects: { savings: -s.cash(0.05), happiness: 3 }, log: "You enjoyed the festival.", explain: "A fun day out has a price." },
+      ],
+    }),
+  },
+  {
+    slug: "peer-pressure",
+    tag: "social",
+    build: (s) => ({
+      title: "Expensive Night Out",
+      description: "Your friends want to try the priciest place in town.",
+      cooldown: 4,
+      choices: [
+        { id: "go", label: "Go along", effects: { savings: -s.cash(0.12), happiness: 3, impulse: 2 }, log: "You splurged with your friends.", explain: "Fun, but it sets a pricey habit." },
+        { id: "suggest", label: "Suggest somewhere cheaper", effects: { savings: -s.cash(0.05), happiness: 2, impulse: -1 }, log: "You talked the group into a cheaper spot.", explain: "Speaking up keeps the fun and cuts the cost." },
+      ],
+    }),
+  },
+
+  // --- finance ---
+  {
+    slug: "auto-save",
+    tag: "finance",
+    build: (s) => ({
+      title: "Automatic Transfer",
+      description: "Your bank can move money to savings on payday.",
+      cooldown: 6,
+      choices: [
+        { id: "automate", label: "Set up the transfer", effects: { savings: s.cash(0.1), impulse: -3, happiness: -1 }, log: "You automated your saving.", explain: "Paying yourself first removes the temptation to spend." },
+        { id: "manual", label: "Keep saving by hand", effects: { impulse: 1 }, log: "You kept saving by hand.", explain: "Manual saving is easy to forget." },
+      ],
+    }),
+  },
+  {
+    slug: "refund",
+    tag: "finance",
+    build: (s) => ({
+      title: "Tax Refund",
+      description: "A refund just landed in your account.",
+      cooldown: 12,
+      choices: [
+        { id: "save", label: "Save all of it", effects: { savings: s.cash(0.25), happiness: 1 }, log: "You saved your whole refund.", explain: "A windfall is the easiest money to save." },
+        { id: "split", label: "Save half and enjoy half", effects: { savings: s.cash(0.12), happiness: 4, impulse: 1 }, log: "You split your refund.", explain: "You enjoy some now and still grow your cushion." },
+      ],
+    }),
+  },
+  {
+    slug: "tracking",
+    tag: "finance",
+    build: () => ({
+      title: "Spending Tracker",
+      description: "A free app offers to categorize every purchase you make.",
+      cooldown: 8,
+      choices: [
+        { id: "track", label: "Track every purchase", effects: { impulse: -4, stress: 1 }, log: "You started tracking your spending.", explain: "Seeing where money goes makes you think twice." },
+        { id: "skip", label: "Skip the app", effects: { stress: -1 }, log: "You skipped the app.", explain: "Less hassle, less insight." },
+      ],
+    }),
+  },
+  {
+    slug: "high-yield",
+    tag: "finance",
+    minKnowledge: 1,
+    build: (s) => ({
+      title: "Better Savings Rate",
+      description: "An online bank pays far more interest than your current account.",
+      cooldown: 8,
+      condition: { stat: "savings", operator: ">=", value: s.cash(0.2) },
+      choices: [
+        { id: "move", label: "Move some cash over", effects: {}, transfers: [{ from: "emergency", to: "highYield", amount: s.cash(0.2) }], log: "You moved cash to a high-yield account.", explain: "The money stays safe and earns noticeably more." },
+        { id: "stay", label: "Leave it where it is", effects: { stress: -1 }, log: "You left your savings alone.", explain: "Simple, but your cash earns almost nothing." },
+      ],
+    }),
+  },
+  {
+    slug: "index-fund",
+    tag: "finance",
+    minKnowledge: 2,
+    build: (s) => ({
+      title: "Index Fund Contribution",
+      description: "You have been reading about low-cost index funds for the long run.",
+      cooldown: 6,
+      condition: { stat: "savings", operator: ">=", value: s.cash(0.25) * 2 },
+      choices: [
+        { id: "invest", label: "Invest some savings", effects: { stress: 2 }, transfers: [{ from: "emergency", to: "index", amount: s.cash(0.25) }], log: "You invested in an index fund.", explain: "Stocks grow faster on average but can drop sharply in a bad month." },
+        { id: "wait", label: "Keep it in cash", effects: { stress: -1 }, log: "You kept your cash.", explain: "Cash is always there, but it barely grows." },
+      ],
+    }),
+  },
+
+  // --- risk ---
+  {
+    slug: "car",
+    tag: "risk",
+    build: (s) => ({
+      title: "Car Trouble",
+      description: "Your car makes a grinding noise on the way to work.",
+      cooldown: 6,
+      choices: [
+        { id: "fix", label: "Fix it properly", effects: { savings: -s.risky(0.2), stress: 2 }, log: "You paid for a proper repair.", explain: "A full repair costs more now but avoids a bigger bill later." },
+        { id: "patch", label: "Patch it cheaply", effects: { savings: -s.risky(0.07), stress: 5 }, log: "You went with a cheap patch.", explain: "You save now but worry about the next breakdown." },
+      ],
+    }),
+  },
+  {
+    slug: "medical",
+    tag: "risk",
+    build: (s) => ({
+      title: "Surprise Medical Bill",
+      description: "A bill arrives for a recent urgent-care visit.",
+      cooldown: 8,
+      choices: [
+        { id: "pay", label: "Pay it right away", effects: { savings: -s.risky(0.15), stress: -1 }, log: "You paid the bill.", explain: "Paying uses cash but clears your mind." },
+        { id: "card", label: "Put it on a card", effects: { debt: s.debt(0.1), stress: 3 }, log: "You put the bill on your card.", explain: "Your cash stays put, but the balance now charges interest." },
+      ],
+    }),
+  },
+  {
+    slug: "tip",
+    tag: "risk",
+    build: (s) => ({
+      title: "Hot Stock Tip",
+      description: "A friend swears a small company is about to take off.",
+      cooldown: 6,
+      choices: [
+        { id: "buy", label: "Buy in", effects: { savings: -s.risky(0.15), stress: 4, impulse: 3 }, log: "You bought in on the tip. It fizzled.", explain: "Chasing tips usually loses money." },
+        { id: "research", label: "Do your own research", effects: { impulse: -2 }, log: "You looked into it and passed.", explain: "Slowing down protects your cash." },
+      ],
+    }),
+  },
+  {
+    slug: "appliance",
+    tag: "risk",
+    build: (s) => ({
+      title: "Broken Appliance",
+      description: "Your fridge stopped working overnight.",
+      cooldown: 8,
+      choices: [
+        { id: "new", label: "Buy a new one", effects: { savings: -s.risky(0.25), happiness: 1 }, log: "You bought a new fridge.", explain: "New and reliable, but expensive." },
+        { id: "used", label: "Find a used one", effects: { savings: -s.risky(0.1), stress: 2 }, log: "You found a used fridge.", explain: "Cheaper, with a bit more risk." },
+      ],
+    }),
+  },
+  {
+    slug: "hours-cut",
+    tag: "risk",
+    build: (s) => ({
+      title: "Hours Cut",
+      description: "Business is slow and your hours are being reduced for a while.",
+      cooldown: 10,
+      condition: { month: { min: 3 } },
+      choices: [
+        { id: "side", label: "Find temporary side work", effects: { savings: s.cash(0.05), stress: 5 }, log: "You picked up side work to fill the gap.", explain: "Extra work covers part of the gap but adds stress." },
+        { id: "tighten", label: "Tighten spending until it passes", effects: { savings: -s.risky(0.1), happiness: -2, impulse: -2 }, log: "You tightened your spending.", explain: "Spending less softens the hit." },
+      ],
+    }),
+  },
+  {
+    slug: "scam",
+    tag: "risk",
+    build: (s) => ({
+      title: "Suspicious Message",
+      description: "A text says your bank account is locked and asks you to confirm your details.",
+      cooldown: 10,
+      choices: [
+        { id: "call", label: "Call your bank directly", effects: { stress: 1 }, log: "You called the bank. It was a scam.", explain: "Checking through an official number keeps your money safe." },
+        { id: "click", label: "Follow the link", effects: { savings: -s.risky(0.2), stress: 6 }, log: "You followed the link and lost money to a scam.", explain: "Scammers rely on urgency; never share details through a link." },
+      ],
+    }),
+  },
+];
+
+function shuffle<T>(items: T[], rng: Rng): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = rng.int(i + 1);
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+// Start the run from what the player told the survey
+export function statsFromProfile(profile: SurveyProfile): GameStats {
+  const base = initialStatsForScenario("classic");
+  const income = Number(profile.income) || base.income;
+  const fixedExpenses = Number(profile.fixedExpenses) || base.fixedExpenses;
+  return {
+    ...base,
+    income,
+    fixedExpenses,
+    budget: income - fixedExpenses,
+    savings: Number(profile.savings) || base.savings,
+    debt: Number(profile.debt) || base.debt,
+    impulse: impulseForRisk(profile.risk),
+  };
+}
+
+// The player's own goal when it parses, otherwise about 10% more savings
+function goalFor(profile: SurveyProfile): ScenarioGoal {
+  const parsed = goalFromText(profile.goals, profile);
+  if (parsed) return parsed;
+  const current = Math.max(0, profile.savings);
+  const target = roundTo(current + Math.min(1500, Math.max(100, current * 0.1)), 50);
+  return { description: buildDescription("savings", current, target), winCondition: { stat: "savings", operator: ">=", value: target } };
+}
+
+// Same profile and seed, same pack
+export function generateCustomScenario(profile: SurveyProfile, seed = seedFromString(JSON.stringify(profile))): GeneratedScenario {
+  const rng = createRng({ seed, cursor: 0 });
+  const level = Math.max(0, KNOWLEDGE_LEVELS.indexOf(profile.knowledge));
+  const scale = scaleFor(profile);
+  const events = TAGS.flatMap((tag) =>
+    shuffle(
+      templates.filter((t) => t.tag === tag && (t.minKnowledge ?? 0) <= level),
+      rng
+    )
+      .slice(0, EVENTS_PER_TAG)
+      .map((t): GameEvent => ({ id: `offline-${t.slug}`, tag, ...t.build(scale) }))
+  );
+  return { events, goal: goalFor(profile) };
+}
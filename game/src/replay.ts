@@ -0,0 +1,60 @@
+// replay.ts
+// A run recorded month by month, so a finished game can be stepped through without
+// simulating it again: the event offered, the choice made, the stats before and after,
+// where the month's money went and the random numbers that decided it.
+//
+// Records are only appended (the last one is completed when its month closes), so an
+// undo snapshot keeps just the length.
+
+import type { GameState, GameStats } from "./gameState";
+import type { TickBreakdown } from "./finance";
+import { randomAt, type RngState } from "./rng";
+
+// The draws each part of a month consumed, in order
+export type RngDraws = {
+  choice: number[]; // chances rolled for the choice's follow-ups
+  tick: number[]; // impulse spending and investment returns
+  nextEvent: number[]; // picking the next month's event
+};
+
+export type TurnRecord = {
+  month: number;
+  eventId: string;
+  choiceId: string;
+  before: GameStats; // at the start of the month
+  afterChoice: GameStats;
+  after?: GameStats; // once the month closed; a run can end on the choice itself
+  tick?: TickBreakdown;
+  draws: RngDraws;
+};
+
+// The values drawn between two states of the same RNG
+export function drawsBetween(from: RngState, to: RngState): number[] {
+  return Array.from({ length: Math.max(0, to.cursor - from.cursor) }, (_, i) => randomAt(from.seed, from.cursor + i));
+}
+
+// A new record for the choice that turned `before` into `after`
+export function recordChoice(before: GameState, after: GameState, eventId: string, choiceId: string): TurnRecord[] {
+  const record: TurnRecord = {
+    month: before.stats.month,
+    eventId,
+    choiceId,
+    before: before.stats,
+    afterChoice: after.stats,
+    draws: { choice: drawsBetween(before.rng, after.rng), tick: [], nextEvent: [] },
+  };
+  return [...before.replay, record];
+}
+
+// Complete the month's record: `closed` is the state after the tick, `next` after the next event was picked
+export function recordClose(before: GameState, closed: GameState, tick: TickBreakdown, next: GameState): TurnRecord[] {
+  const last = before.replay[before.replay.length - 1];
+  if (!last || last.month !== before.stats.month) return before.replay;
+  const record: TurnRecord = {
+    ...last,
+    after: closed.stats,
+    tick,
+    draws: { ...last.draws, tick: drawsBetween(before.rng, closed.rng), nextEvent: drawsBetween(closed.rng, next.rng) },
+  };
+  return [...before.replay.slice(0, -1), record];
+}
@@ -0,0 +1,56 @@
+// rng.ts
+// Seeded, counter-based RNG. The whole simulation draws from here so a run is
+// fully determined by its seed: the cursor counts how many draws were made.
+
+export type RngState = {
+  seed: number; // 32-bit unsigned
+  cursor: number; // number of draws consumed so far
+};
+
+export type Rng = {
+  next: () => number; // float in [0, 1)
+  int: (maxExclusive: number) => number;
+  state: () => RngState;
+};
+
+// mulberry32 evaluated at an arbitrary position, so a state is just (seed, cursor)
+export function randomAt(seed: number, cursor: number): number {
+  let t = (seed + Math.imul(0x6d2b79f5, cursor + 1)) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+export function createRng(state: RngState): Rng {
+  let cursor = state.cursor;
+  const next = () => randomAt(state.seed, cursor++);
+  return {
+    next,
+    int: (maxExclusive) => Math.floor(next() * maxExclusive),
+    state: () => ({ seed: state.seed, cursor }),
+  };
+}
+
+// FNV-1a, used to turn text (e.g. a date) into a seed
+export function seedFromString(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Same seed for every player on a given (UTC) day
+export function dailySeed(date: Date = new Date()): number {
+  return seedFromString(`daily-${date.toISOString().slice(0, 10)}`);
+}
+
+// The only non-deterministic source: picks a seed for a brand new run
+export function createSeed(): number {
+  return (Math.random() * 4294967296) >>> 0;
+}
+
+export function freshRng(seed: number = createSeed()): RngState {
+  return { seed: seed >>> 0, cursor: 0 };
+}
@@ -0,0 +1,302 @@
+// saveFormat.ts
+// Versioned save envelope, migrations between versions and runtime validation.
+// Bump SAVE_VERSION and add a migration whenever GameState changes shape.
+
+import { initialStatsForScenario, type GameState, type ScenarioId } from "./gameState";
+import { freshRng } from "./rng";
+import { reconcileDebt } from "./ledger";
+import { ACCOUNT_IDS, defaultDrainOrder, openingAccounts } from "./accounts";
+import { parseWinExpression } from "./winExpression";
+import { parseLoseRules } from "./loseRules";
+import { isKnownScenario } from "./scenarioRegistry";
+import { LOG_CATEGORIES, LOG_SOURCES, type LogCategory, type LogSource } from "./gameLog";
+
+export const SAVE_FORMAT = "centible-save";
+export const SAVE_VERSION = 15;
+
+export type SaveEnvelope = {
+  format: typeof SAVE_FORMAT;
+  version: number;
+  savedAt: string; // ISO timestamp
+  game: GameState;
+};
+
+export type DecodeResult = { ok: true; game: GameState; migratedFrom?: number } | { ok: false; error: string };
+
+// Loose shape of a save while it is being migrated
+type RawGame = Record<string, unknown> & { stats?: Record<string, unknown> };
+
+// migrations[n] turns a version-n game into a version-(n + 1) game
+const migrations: Record<number, (game: RawGame) => RawGame> = {
+  // v1 -> v2: seeded RNG
+  1: (game) => ({ ...game, rng: game.rng ?? freshRng() }),
+  // v2 -> v3: follow-up queue
+  2: (game) => ({ ...game, scheduled: game.scheduled ?? [] }),
+  // v3 -> v4: obligations ledger, seeded from the aggregate debt
+  3: (game) => ({ ...game, obligations: game.obligations ?? reconcileDebt([], Number(game.stats?.debt) || 0) }),
+  // v4 -> v5: savings accounts
+  4: (game) => ({
+    ...game,
+    accounts: game.accounts ?? openingAccounts(Number(game.stats?.savings) || 0),
+    drainOrder: game.drainOrder ?? defaultDrainOrder,
+  }),
+  // v5 -> v6: starting stats for replays (best guess: the scenario defaults)
+  5: (game) => ({ ...game, startingStats: game.startingStats ?? initialStatsForScenario(game.scenarioId as ScenarioId) }),
+  // v6 -> v7: optional customPackId; older custom runs never stored their pack
+  6: (game) => game,
+  // v7 -> v8: optional goalCondition and goalDeadline for compound goals
+  7: (game) => game,
+  // v8 -> v9: every goal shape becomes one win expression, plus its progress
+  8: ({ winCondition, goalCondition, goalDeadline, ...game }) => {
+    const condition = goalCondition ?? winCondition;
+    const goal = condition ? { condition, label: String(game.goalDescription ?? "Reach your goal") } : undefined;
+    const win = goal && goalDeadline ? { by: goalDeadline, goal } : goal;
+    return { ...game, ...(win ? { win } : {}), winProgress: {} };
+  },
+  // v9 -> v10: lose rules are data; older runs keep their scenario's rules with no streaks yet
+  9: (game) => ({ ...game, loseStreaks: game.loseStreaks ?? {} }),
+  // v10 -> v11: optional currentChoiceId; older saves reload before the choice was made
+  10: (game) => game,
+  // v11 -> v12: undo stack of month starts, and optional hardcore
+  11: (game) => ({ ...game, undoStack: game.undoStack ?? [] }),
+  // v12 -> v13: turn-by-turn replay; older runs start recording from here
+  12: (game) => ({
+    ...game,
+    replay: game.replay ?? [],
+    ...(Array.isArray(game.undoStack) ? { undoStack: game.undoStack.map((e) => (isRecord(e) ? { replayLength: 0, ...e } : e)) } : {}),
+  }),
+  // v13 -> v14: typed log entries; plain lines become system notes of no known month
+  13: (game) => ({
+    ...game,
+    ...(Array.isArray(game.log)
+      ? { log: game.log.map((line) => (isString(line) ? { month: 0, source: "system", category: "system", text: line } : line)) }
+      : {}),
+  }),
+  // v14 -> v15: stats at each month start; older runs get the month starts their replay knows
+  14: (game) => {
+    if (Array.isArray(game.timeline)) return game;
+    const starts = (Array.isArray(game.replay) ? game.replay : []).flatMap((r) => (isRecord(r) && isRecord(r.before) ? [r.before] : []));
+    const current = game.stats;
+    const timeline = starts.some((s) => s.month === current?.month) || !current ? starts : [...starts, current];
+    const cut = (month: unknown) => timeline.filter((s) => Number(s.month) <= Number(month)).length;
+    return {
+      ...game,
+      timeline,
+      ...(Array.isArray(game.undoStack)
+        ? { undoStack: game.undoStack.map((e) => (isRecord(e) ? { timelineLength: cut(e.month), ...e } : e)) }
+        : {}),
+    };
+  },
+};
+
+export function encodeSave(game: GameState, savedAt: Date = new Date()): string {
+  const envelope: SaveEnvelope = { format: SAVE_FORMAT, version: SAVE_VERSION, savedAt: savedAt.toISOString(), game };
+  return JSON.stringify(envelope);
+}
+
+// Accepts an envelope of any known version, or a bare pre-envelope GameState (version 1)
+export function decodeSave(raw: string): DecodeResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: "Save is not valid JSON." };
+  }
+  if (!isRecord(parsed)) return { ok: false, error: "Save is not an object." };
+
+  const isEnvelope = parsed.format === SAVE_FORMAT;
+  const version = isEnvelope ? parsed.version : 1;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    return { ok: false, error: "Save has no readable version." };
+  }
+  if (version > SAVE_VERSION) {
+    return { ok: false, error: `Save is from a newer version of the game (v${version}).` };
+  }
+
+  let game = isEnvelope ? parsed.game : parsed;
+  if (!isRecord(game)) return { ok: false, error: "Save contains no game." };
+  for (let v = version; v < SAVE_VERSION; v++) {
+    const migrate = migrations[v];
+    game = migrate(game as RawGame);
+    // Undo snapshots are games too and move forward with the save
+    const { undoStack } = game as RawGame;
+    if (Array.isArray(undoStack)) {
+      game = { ...(game as RawGame), undoStack: undoStack.map((e) => (isRecord(e) && isRecord(e.state) ? { ...e, state: migrate(e.state) } : e)) };
+    }
+  }
+
+  const problems = validateGameState(game);
+  if (problems.length > 0) {
+    return { ok: false, error: `Save is damaged: ${problems.slice(0, 3).join("; ")}${problems.length > 3 ? "; ..." : ""}` };
+  }
+  return { ok: true, game: game as GameState, migratedFrom: version < SAVE_VERSION ? version : undefined };
+}
+
+// --- Validation ---
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+const isString = (v: unknown): v is string => typeof v === "string";
+const isOptional = (v: unknown, check: (x: unknown) => boolean) => v === undefined || check(v);
+const isNumberList = (v: unknown) => Array.isArray(v) && v.every(isNumber);
+const isLogEntry = (v: unknown) =>
+  isRecord(v) &&
+  isNumber(v.month) &&
+  LOG_SOURCES.includes(v.source as LogSource) &&
+  LOG_CATEGORIES.includes(v.category as LogCategory) &&
+  isString(v.text) &&
+  isOptional(v.deltas, (d) => isRecord(d) && Object.values(d).every(isNumber));
+
+const STAT_KEYS = ["month", "budget", "impulse", "savings", "debt", "income", "fixedExpenses", "happiness", "stress"];
+const WIN_STATS = ["savings", "debt", "income", "impulse", "stress", "happiness", "fixedExpenses"];
+const OPERATORS = ["<", "<=", ">", ">="];
+const OBLIGATION_KINDS = ["loan", "installment", "subscription", "credit"];
+
+function numericRecord(value: unknown, path: string, problems: string[], keys?: string[]) {
+  if (!isRecord(value)) {
+    problems.push(`${path} must be an object`);
+    return;
+  }
+  for (const key of keys ?? Object.keys(value)) {
+    if (!isNumber(value[key])) problems.push(`${path}.${key} must be a number`);
+  }
+}
+
+// Problems with a GameStats-shaped value; shared with scenario file imports
+export function statsProblems(value: unknown, path = "stats"): string[] {
+  const problems: string[] = [];
+  numericRecord(value, path, problems, STAT_KEYS);
+  return problems;
+}
+
+export function isWinCondition(value: unknown): boolean {
+  return isRecord(value) && WIN_STATS.includes(value.stat as string) && OPERATORS.includes(value.operator as string) && isNumber(value.value);
+}
+
+// Shared with scenario definitions, which list their starting loans
+export function isObligation(o: unknown): boolean {
+  return (
+    isRecord(o) &&
+    isString(o.id) &&
+    isString(o.name) &&
+    OBLIGATION_KINDS.includes(o.kind as string) &&
+    isNumber(o.balance) &&
+    isNumber(o.apr) &&
+    isNumber(o.minimumPayment) &&
+    isOptional(o.endMonth, isNumber)
+  );
+}
+
+// Lists every problem found; an empty list means the value is a usable GameState
+export function validateGameState(value: unknown): string[] {
+  const problems: string[] = [];
+  if (!isRecord(value)) return ["game must be an object"];
+  const g = value;
+
+  problems.push(...statsProblems(g.stats), ...statsProblems(g.startingStats, "startingStats"));
+  if (!Array.isArray(g.log) || !g.log.every(isLogEntry)) problems.push("log must be a list of log entries");
+  if (typeof g.gameOver !== "boolean") problems.push("gameOver must be true or false");
+  if (
+    !isOptional(g.result, (r) => isRecord(r) && (r.status === "win" || r.status === "lose") && isString(r.message))
+  ) {
+    problems.push("result is malformed");
+  }
+  for (const key of ["currentEventId", "currentChoiceId", "lastEventId", "lastTag", "goalDescription", "customPackId"]) {
+    if (!isOptional(g[key], isString)) problems.push(`${key} must be a string`);
+  }
+  numericRecord(g.lastSeen, "lastSeen", problems);
+  if (!isKnownScenario(g.scenarioId)) problems.push(`scenarioId "${String(g.scenarioId)}" is unknown`);
+  if (!isOptional(g.win, (w) => parseWinExpression(w) !== null)) problems.push("win is malformed");
+  numericRecord(g.winProgress, "winProgress", problems);
+  if (!isOptional(g.lose, (l) => parseLoseRules(l) !== null)) problems.push("lose is malformed");
+  numericRecord(g.loseStreaks, "loseStreaks", problems);
+
+  if (!isRecord(g.rng) || !Number.isInteger(g.rng.seed) || !Number.isInteger(g.rng.cursor) || (g.rng.cursor as number) < 0) {
+    problems.push("rng must have an integer seed and cursor");
+  }
+
+  if (!Array.isArray(g.scheduled)) {
+    problems.push("scheduled must be a list");
+  } else {
+    g.scheduled.forEach((item, i) => {
+      const ok =
+        isRecord(item) &&
+        isNumber(item.dueMonth) &&
+        isString(item.source) &&
+        ((item.kind === "event" && isString(item.eventId)) ||
+          (item.kind === "effects" && isString(item.log) && isRecord(item.effects) && Object.values(item.effects).every(isNumber)));
+      if (!ok) problems.push(`scheduled[${i}] is malformed`);
+    });
+  }
+
+  if (!Array.isArray(g.obligations)) {
+    problems.push("obligations must be a list");
+  } else {
+    g.obligations.forEach((o, i) => {
+      if (!isObligation(o)) problems.push(`obligations[${i}] is malformed`);
+    });
+  }
+
+  if (!Array.isArray(g.replay)) {
+    problems.push("replay must be a list");
+  } else {
+    g.replay.forEach((record, i) => {
+      const ok =
+        isRecord(record) &&
+        isNumber(record.month) &&
+        isString(record.eventId) &&
+        isString(record.choiceId) &&
+        statsProblems(record.before).length === 0 &&
+        statsProblems(record.afterChoice).length === 0 &&
+        isOptional(record.after, (s) => statsProblems(s).length === 0) &&
+        isOptional(record.tick, (t) => isRecord(t) && Object.values(t).every(isNumber)) &&
+        isRecord(record.draws) &&
+        isNumberList(record.draws.choice) &&
+        isNumberList(record.draws.tick) &&
+        isNumberList(record.draws.nextEvent);
+      if (!ok) problems.push(`replay[${i}] is malformed`);
+    });
+  }
+
+  if (!Array.isArray(g.timeline) || !g.timeline.every((s) => statsProblems(s).length === 0)) {
+    problems.push("timeline must be a list of stats");
+  }
+
+  if (!isOptional(g.hardcore, (h) => typeof h === "boolean")) problems.push("hardcore must be true or false");
+  if (!Array.isArray(g.undoStack)) {
+    problems.push("undoStack must be a list");
+  } else {
+    const logLength = Array.isArray(g.log) ? g.log.length : 0;
+    const replayLength = Array.isArray(g.replay) ? g.replay.length : 0;
+    const timelineLength = Array.isArray(g.timeline) ? g.timeline.length : 0;
+    g.undoStack.forEach((entry, i) => {
+      const ok =
+        isRecord(entry) &&
+        isNumber(entry.month) &&
+        isOptional(entry.eventId, isString) &&
+        Number.isInteger(entry.logLength) &&
+        (entry.logLength as number) >= 0 &&
+        (entry.logLength as number) <= logLength &&
+        Number.isInteger(entry.replayLength) &&
+        (entry.replayLength as number) >= 0 &&
+        (entry.replayLength as number) <= replayLength &&
+        Number.isInteger(entry.timelineLength) &&
+        (entry.timelineLength as number) >= 0 &&
+        (entry.timelineLength as number) <= timelineLength &&
+        isRecord(entry.state) &&
+        validateGameState({ ...entry.state, log: [], undoStack: [], replay: [], timeline: [] }).length === 0;
+      if (!ok) problems.push(`undoStack[${i}] is malformed`);
+    });
+  }
+
+  numericRecord(g.accounts, "accounts", problems, ACCOUNT_IDS);
+  if (
+    !Array.isArray(g.drainOrder) ||
+    g.drainOrder.length !== ACCOUNT_IDS.length ||
+    !ACCOUNT_IDS.every((id) => (g.drainOrder as unknown[]).includes(id))
+  ) {
+    problems.push("drainOrder must list every account once");
+  }
+
+  return problems;
+}
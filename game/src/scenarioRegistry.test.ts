@@ -0,0 +1,34 @@
+// scenarioRegistry.test.ts
+
+import { describe, expect, it } from "vitest";
+import { isKnownScenario, loadScenarios, scenarioDefinition, scenarioList } from "./scenarioRegistry";
+import classic from "./scenarios/classic.json";
+
+// A scenario file as it would arrive from outside the build
+const definition = JSON.parse(JSON.stringify({ ...classic, id: "gap-year", name: "Gap Year", blurb: "A year off before college." }));
+
+describe("loadScenarios", () => {
+  it("adds a scenario read from JSON", () => {
+    expect(loadScenarios([definition])).toEqual([]);
+    expect(isKnownScenario("gap-year")).toBe(true);
+    expect(scenarioDefinition("gap-year").name).toBe("Gap Year");
+    expect(scenarioDefinition("gap-year").lose.map((r) => r.id)).toEqual(["debt-spiral", "breakdown"]);
+    expect(scenarioList().map((s) => s.id)).toContain("gap-year");
+  });
+
+  it("rejects a malformed definition and keeps the rest", () => {
+    const broken = { ...definition, id: "broken", startingStats: { ...definition.startingStats, savings: "lots" } };
+    const problems = loadScenarios([broken, { ...definition, id: "gap-year-2" }]);
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toMatch(/^broken: .*savings/);
+    expect(isKnownScenario("broken")).toBe(false);
+    expect(isKnownScenario("gap-year-2")).toBe(true);
+  });
+
+  it("rejects a definition without a valid id", () => {
+    expect(loadScenarios([{ ...definition, id: "Gap Year" }, "not a scenario"])).toEqual([
+      "id must be lowercase letters, digits and dashes",
+      "definition must be an object",
+    ]);
+  });
+});
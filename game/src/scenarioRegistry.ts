@@ -0,0 +1,131 @@
+// scenarioRegistry.ts
+// Every scenario is one ScenarioDefinition: starting stats and loans, event pack, goal,
+// lose rules and tick modifiers. The built-in ones ship as JSON in ./scenarios; adding a
+// scenario means adding a file there and listing it below (or calling loadScenarios).
+//
+// Built-ins are parsed on first lookup rather than at import, so modules that import this
+// one in a cycle (gameState -> here -> saveFormat -> gameState) are all loaded by then.
+
+import type { GameStats, ScenarioId } from "./gameState";
+import type { GameEvent } from "./events";
+import type { Obligation } from "./ledger";
+import type { ScenarioGoal } from "./goals";
+import type { TickModifiers } from "./finance";
+import { parseLoseRules, type LoseRule } from "./loseRules";
+import { parseWinExpression } from "./winExpression";
+import { validateEventPack } from "./eventSchema";
+import { isObligation, isWinCondition, statsProblems } from "./saveFormat";
+import classic from "./scenarios/classic.json";
+import student from "./scenarios/student.json";
+import startup from "./scenarios/startup.json";
+import newParent from "./scenarios/new-parent.json";
+import custom from "./scenarios/custom.json";
+
+export type ScenarioDefinition = {
+  id: ScenarioId;
+  name: string;
+  icon?: string;
+  blurb: string;
+  startingStats: GameStats;
+  obligations: Obligation[]; // named loans and subscriptions behind the starting debt
+  goal: ScenarioGoal;
+  lose: LoseRule[];
+  tick?: TickModifiers; // how a month closes differently in this scenario
+  events: GameEvent[]; // empty for "custom", whose pack is generated
+};
+
+// In the order the scenario picker lists them
+const BUILT_IN: unknown[] = [classic, student, startup, newParent, custom];
+const FALLBACK_ID = "classic";
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+const TICK_KEYS: (keyof TickModifiers)[] = ["incomeGrowth", "expenseGrowth", "stressPerMonth", "happinessPerMonth", "impulseDecay"];
+
+// Validate untrusted JSON. Returns the definition, or the first problem found.
+export function parseScenarioDefinition(value: unknown): ScenarioDefinition | string {
+  if (!isRecord(value)) return "definition must be an object";
+  const { id, name, icon, blurb, goal, tick } = value;
+  if (typeof id !== "string" || !/^[a-z0-9-]+$/.test(id)) return "id must be lowercase letters, digits and dashes";
+  const where = (problem: string) => `${id}: ${problem}`;
+  if (typeof name !== "string" || !name.trim()) return where("name is missing");
+  if (icon !== undefined && typeof icon !== "string") return where("icon must be a string");
+  if (typeof blurb !== "string") return where("blurb is missing");
+
+  const problems = statsProblems(value.startingStats, "startingStats");
+  if (problems.length > 0) return where(problems[0]);
+
+  const obligations = value.obligations ?? [];
+  if (!Array.isArray(obligations) || !obligations.every(isObligation)) return where("obligations are malformed");
+
+  if (
+    !isRecord(goal) ||
+    typeof goal.description !== "string" ||
+    (goal.winCondition !== undefined && !isWinCondition(goal.winCondition)) ||
+    (goal.win !== undefined && parseWinExpression(goal.win) === null) ||
+    (goal.winMessage !== undefined && typeof goal.winMessage !== "string")
+  ) {
+    return where("goal is malformed");
+  }
+  const lose = parseLoseRules(value.lose ?? []);
+  if (!lose) return where("lose rules are malformed");
+
+  if (tick !== undefined && !(isRecord(tick) && Object.keys(tick).every((k) => TICK_KEYS.includes(k as keyof TickModifiers) && isNumber(tick[k])))) {
+    return where("tick modifiers are malformed");
+  }
+
+  // A shipped pack must be clean; nothing is silently dropped
+  const pack = validateEventPack(value.events ?? []);
+  if (pack.problems.length > 0) return where(`events ${pack.problems[0]}`);
+
+  return {
+    id,
+    name: name.trim(),
+    ...(icon ? { icon } : {}),
+    blurb,
+    startingStats: value.startingStats as GameStats,
+    obligations: obligations as Obligation[],
+    goal: goal as ScenarioGoal,
+    lose,
+    ...(tick ? { tick: tick as TickModifiers } : {}),
+    events: pack.events,
+  };
+}
+
+let registry: Map<ScenarioId, ScenarioDefinition> | undefined;
+
+function loaded(): Map<ScenarioId, ScenarioDefinition> {
+  if (!registry) {
+    registry = new Map();
+    for (const value of BUILT_IN) {
+      const definition = parseScenarioDefinition(value);
+      if (typeof definition === "string") throw new Error(`Built-in scenario is invalid: ${definition}`);
+      registry.set(definition.id, definition);
+    }
+  }
+  return registry;
+}
+
+// Add or replace scenarios from JSON; returns one line per definition that was rejected
+export function loadScenarios(values: unknown[]): string[] {
+  const problems: string[] = [];
+  for (const value of values) {
+    const definition = parseScenarioDefinition(value);
+    if (typeof definition === "string") problems.push(definition);
+    else loaded().set(definition.id, definition);
+  }
+  return problems;
+}
+
+export function isKnownScenario(id: unknown): id is ScenarioId {
+  return typeof id === "string" && loaded().has(id);
+}
+
+// Unknown ids (a save from a build with a scenario since removed) play as classic
+export function scenarioDefinition(id: ScenarioId): ScenarioDefinition {
+  return loaded().get(id) ?? loaded().get(FALLBACK_ID)!;
+}
+
+export function scenarioList(): ScenarioDefinition[] {
+  return [...loaded().values()];
+}
@@ -0,0 +1,161 @@
+// simulation.ts
+// Headless game loop for balance analysis. Drives the same engine as the UI:
+// choose -> check win/lose -> end-of-period tick -> check win/lose -> next event.
+
+import type { GameState, ScenarioId } from "./gameState";
+import { currentEvent, type EventChoice, type GameEvent } from "./events";
+import { goalFields, type ScenarioGoal } from "./goals";
+import { createRng, freshRng, seedFromString, type Rng } from "./rng";
+import { reduceGame, startGame, type DomainEvent, type GameAction } from "./gameEngine";
+
+export type ChoicePolicy = (event: GameEvent, state: GameState, rng: Rng) => EventChoice;
+
+const byScore = (score: (c: EventChoice) => number): ChoicePolicy => (event) =>
+  event.choices.reduce((best, c) => (score(c) > score(best) ? c : best), event.choices[0]);
+
+export const policies: Record<string, ChoicePolicy> = {
+  random: (event, _state, rng) => event.choices[rng.int(event.choices.length)],
+  "always-first": (event) => event.choices[0],
+  "always-last": (event) => event.choices[event.choices.length - 1],
+  // Maximise cash on hand now, then prefer lower debt
+  "greedy-savings": byScore((c) => (c.effects.savings ?? 0) - (c.effects.debt ?? 0) * 0.5 + ((c.effects.income ?? 0) - (c.effects.fixedExpenses ?? 0)) * 3),
+  // Pay debt down whenever possible
+  "debt-first": byScore((c) => -(c.effects.debt ?? 0) * 2 + (c.effects.savings ?? 0) * 0.1),
+  // Protect mood over money
+  wellbeing: byScore((c) => (c.effects.happiness ?? 0) - (c.effects.stress ?? 0)),
+};
+
+export type GameOutcome = {
+  status: "win" | "lose" | "timeout";
+  months: number;
+  loseReason?: string;
+  events: string[]; // event ids offered, in order
+  choices: string[]; // "eventId:choiceId", in order
+};
+
+export type SimulationOptions = {
+  seed: number;
+  maxMonths: number;
+  goal?: ScenarioGoal; // a custom pack's goal; built-in scenarios use their default
+};
+
+export function simulateGame(scenarioId: ScenarioId, policy: ChoicePolicy, options: SimulationOptions): GameOutcome {
+  // The policy gets its own stream so its draws never shift the game's RNG
+  const policyRng = createRng(freshRng(seedFromString(`policy-${options.seed}`)));
+  let state: GameState = startGame(scenarioId, {
+    log: [],
+    ...(options.goal ? goalFields(options.goal) : {}),
+    rng: freshRng(options.seed),
+  }).state;
+  const outcome: GameOutcome = { status: "timeout", months: 0, events: [], choices: [] };
+
+  const record = (events: DomainEvent[]) => {
+    for (const e of events) {
+      if (e.type === "choiceMade") {
+        outcome.events.push(e.eventId);
+        outcome.choices.push(`${e.eventId}:${e.choiceId}`);
+      } else if (e.type === "gameWon" || e.type === "gameLost") {
+        outcome.status = e.type === "gameWon" ? "win" : "lose";
+        outcome.months = e.month;
+        if (e.type === "gameLost") outcome.loseReason = e.message;
+      }
+    }
+  };
+
+  while (state.stats.month <= options.maxMonths) {
+    const event = currentEvent(state);
+    if (!event) break;
+    const choice = policy(event, state, policyRng);
+    const turn: GameAction[] = [{ type: "chooseOption", choiceId: choice.id }, { type: "advanceMonth" }];
+    for (const action of turn) {
+      const step = reduceGame(state, action);
+      state = step.state;
+      record(step.events);
+      if (state.gameOver) return outcome;
+    }
+  }
+
+  outcome.months = options.maxMonths;
+  return outcome;
+}
+
+export type BatchReport = {
+  scenarioId: ScenarioId;
+  policy: string;
+  runs: number;
+  wins: number;
+  losses: number;
+  timeouts: number;
+  medianMonthsToWin: number | null;
+  medianMonthsToLose: number | null;
+  loseReasons: Record<string, number>;
+  eventCounts: Record<string, number>; // times offered across all runs
+  choiceCounts: Record<string, number>; // "eventId:choiceId" -> times chosen
+};
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const bump = (counts: Record<string, number>, key: string) => {
+  counts[key] = (counts[key] ?? 0) + 1;
+};
+
+export function runBatch(
+  scenarioId: ScenarioId,
+  policyName: string,
+  runs: number,
+  options: SimulationOptions
+): BatchReport {
+  const policy = policies[policyName];
+  if (!policy) throw new Error(`Unknown policy "${policyName}"`);
+
+  const report: BatchReport = {
+    scenarioId,
+    policy: policyName,
+    runs,
+    wins: 0,
+    losses: 0,
+    timeouts: 0,
+    medianMonthsToWin: null,
+    medianMonthsToLose: null,
+    loseReasons: {},
+    eventCounts: {},
+    choiceCounts: {},
+  };
+  const winMonths: number[] = [];
+  const loseMonths: number[] = [];
+
+  for (let i = 0; i < runs; i++) {
+    const outcome = simulateGame(scenarioId, policy, { ...options, seed: (options.seed + i) >>> 0 });
+    if (outcome.status === "win") {
+      report.wins++;
+      winMonths.push(outcome.months);
+    } else if (outcome.status === "lose") {
+      report.losses++;
+      loseMonths.push(outcome.months);
+      bump(report.loseReasons, outcome.loseReason ?? "unknown");
+    } else {
+      report.timeouts++;
+    }
+    outcome.events.forEach((id) => bump(report.eventCounts, id));
+    outcome.choices.forEach((id) => bump(report.choiceCounts, id));
+  }
+
+  report.medianMonthsToWin = median(winMonths);
+  report.medianMonthsToLose = median(loseMonths);
+  return report;
+}
+
+// Flags designers should look at; empty when the pack looks reasonably tuned
+export function balanceWarnings(report: BatchReport): string[] {
+  const warnings: string[] = [];
+  const winRate = report.wins / report.runs;
+  if (report.wins === 0) warnings.push("never won: the goal may be unreachable with this policy");
+  else if (winRate > 0.95 && (report.medianMonthsToWin ?? Infinity) <= 3) warnings.push("trivially easy: almost always won within 3 months");
+  if (report.timeouts / report.runs > 0.5) warnings.push("most runs hit the month cap without finishing");
+  return warnings;
+}
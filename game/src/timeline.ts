@@ -0,0 +1,36 @@
+// timeline.ts
+// The run month by month, for the trends dashboard: series read from GameState.timeline
+// (the stats at the start of each month) and markers for the choices that mattered most,
+// read from the replay.
+
+import type { GameState, GameStats } from "./gameState";
+import { findEvent } from "./events";
+
+export type SeriesPoint = { month: number; value: number };
+
+export type ChartMarker = { month: number; label: string };
+
+// Choices that moved net worth by at least this much are marked on the charts
+export const MAJOR_CHOICE_AMOUNT = 500;
+
+export const netWorth = (stats: GameStats) => stats.savings - stats.debt;
+
+export function series(timeline: GameStats[], value: (stats: GameStats) => number): SeriesPoint[] {
+  return timeline.map((stats) => ({ month: stats.month, value: value(stats) }));
+}
+
+// What each month actually added to or took from net worth, at the month it was earned in
+export function cashFlows(timeline: GameStats[]): SeriesPoint[] {
+  return timeline.slice(1).map((stats, i) => ({ month: timeline[i].month, value: netWorth(stats) - netWorth(timeline[i]) }));
+}
+
+export function majorChoices(game: GameState): ChartMarker[] {
+  return game.replay.flatMap((record) => {
+    const impact = netWorth(record.afterChoice) - netWorth(record.before);
+    if (Math.abs(impact) < MAJOR_CHOICE_AMOUNT) return [];
+    const event = findEvent(game.scenarioId, record.eventId);
+    const choice = event?.choices.find((c) => c.id === record.choiceId);
+    const amount = `${impact > 0 ? "+" : "-"}$${Math.abs(impact)}`;
+    return [{ month: record.month, label: `${event?.title ?? record.eventId}: ${choice?.label ?? record.choiceId} (${amount})` }];
+  });
+}
@@ -0,0 +1,66 @@
+// turn.ts
+// The two halves of a month, shared by the UI and the headless simulation.
+
+import type { GameState } from "./gameState";
+import { applyEffects, type EventChoice, type GameEvent } from "./events";
+import { endOfPeriodTick, type TickResult } from "./finance";
+import { applyLedgerActions, ledgerDebt, reconcileDebt } from "./ledger";
+import { applyDueEffects, scheduleFollowUps } from "./chains";
+import { createRng } from "./rng";
+import { accountsTotal, applyTransfers, reconcileSavings } from "./accounts";
+import { advanceGoal } from "./goals";
+import { scenarioDefinition } from "./scenarioRegistry";
+import { stampLines, type LogLine } from "./gameLog";
+
+// Apply the player's choice for the event on screen
+export function resolveChoice(state: GameState, event: GameEvent, choice: EventChoice): GameState {
+  const rng = createRng(state.rng);
+  const month = state.stats.month;
+  const stats = applyEffects(state.stats, choice.effects);
+  const logs: LogLine[] = [];
+
+  // Spending more than the accounts hold goes on the credit card
+  const savings = reconcileSavings(state.accounts, stats.savings, state.drainOrder);
+  const transfers = applyTransfers(savings.accounts, choice.transfers ?? []);
+  if (savings.shortfall > 0) {
+    logs.push({ category: "debt", text: `Savings ran dry: $${savings.shortfall} went on the credit card.`, deltas: { debt: savings.shortfall } });
+  }
+  logs.push(...transfers.logs);
+
+  // Bring the ledger in line with any debt change first, then add/refinance/cancel items
+  const ledger = applyLedgerActions(
+    reconcileDebt(state.obligations, stats.debt + savings.shortfall),
+    choice.ledger ?? [],
+    month
+  );
+  logs.push(...ledger.logs);
+
+  return {
+    ...state,
+    stats: { ...stats, savings: accountsTotal(transfers.accounts), debt: ledgerDebt(ledger.obligations) },
+    obligations: ledger.obligations,
+    accounts: transfers.accounts,
+    log: [...stampLines([...logs.reverse(), { category: "choice", text: choice.log, deltas: choice.effects }], month, "event"), ...state.log],
+    lastEventId: event.id,
+    lastTag: event.tag,
+    lastSeen: { ...state.lastSeen, [event.id]: month },
+    scheduled: scheduleFollowUps(state.scheduled, event.id, choice, month, rng),
+    rng: rng.state(), // after scheduling, which may roll chances
+  };
+}
+
+// Close the month: cash flow, interest, obligations and the scenario's drift, any deferred effects now due, then goal progress.
+// The tick comes back too, for the replay record.
+export function advanceMonth(state: GameState): { state: GameState; tick: TickResult } {
+  const rng = createRng(state.rng);
+  const tick = endOfPeriodTick(state.stats, rng, state, scenarioDefinition(state.scenarioId).tick);
+  const closed = advanceGoal(applyDueEffects({
+    ...state,
+    stats: tick.stats,
+    obligations: tick.obligations,
+    accounts: tick.accounts,
+    log: [...stampLines(tick.logs, state.stats.month, "tick"), ...state.log],
+    rng: rng.state(),
+  }), { missedPayment: tick.missedPayment });
+  return { state: closed, tick };
+}
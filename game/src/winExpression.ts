@@ -0,0 +1,193 @@
+// winExpression.ts
+// Declarative win goals: conditions combined with AND/OR, deadlines, "hold it for N months"
+// and ordered milestones. Like conditions.ts this is plain JSON, so built-in scenarios,
+// parsed player goals and saves share one shape and one interpreter.
+//
+// Sustain counters, reached milestones and met deadlines live in WinProgress, keyed by the
+// node's path ("r", "r.0", "r.0.1"); advanceWinProgress updates them when a month closes.
+
+import { evaluateCondition, parseCondition, type Condition } from "./conditions";
+import type { GameStats } from "./gameState";
+
+export type WinExpression =
+  | { condition: Condition; label?: string }
+  | { all: WinExpression[]; label?: string }
+  | { any: WinExpression[]; label?: string }
+  // the inner goal holds at the close of `months` months in a row
+  | { sustain: WinExpression; months: number; label?: string }
+  // each step counts once it is met, and only after the one before it
+  | { milestones: WinExpression[]; label?: string }
+  // the inner goal is met by the close of month `by`, or the goal fails
+  | { by: number; goal: WinExpression; label?: string };
+
+export type WinProgress = Record<string, number>;
+export type WinStatus = "met" | "pending" | "failed";
+
+// One line of the progress list in the sidebar
+export type WinPart = {
+  label: string;
+  depth: number;
+  status: WinStatus;
+  detail?: string; // "2 of 3 months", "4 months left"
+  fraction?: number; // 0-1 for a progress bar, when one makes sense
+};
+
+const ROOT = "r";
+const child = (path: string, i: number) => `${path}.${i}`;
+
+export function winStatus(expr: WinExpression, stats: GameStats, progress: WinProgress, path = ROOT): WinStatus {
+  if ("condition" in expr) return evaluateCondition(expr.condition, stats) ? "met" : "pending";
+  if ("all" in expr) {
+    const statuses = expr.all.map((e, i) => winStatus(e, stats, progress, child(path, i)));
+    if (statuses.includes("failed")) return "failed";
+    return statuses.every((s) => s === "met") ? "met" : "pending";
+  }
+  if ("any" in expr) {
+    const statuses = expr.any.map((e, i) => winStatus(e, stats, progress, child(path, i)));
+    if (statuses.includes("met")) return "met";
+    return statuses.length > 0 && statuses.every((s) => s === "failed") ? "failed" : "pending";
+  }
+  if ("sustain" in expr) {
+    if ((progress[path] ?? 0) >= expr.months) return "met";
+    return winStatus(expr.sustain, stats, progress, child(path, 0)) === "failed" ? "failed" : "pending";
+  }
+  if ("milestones" in expr) {
+    const reached = progress[path] ?? 0;
+    if (reached >= expr.milestones.length) return "met";
+    return winStatus(expr.milestones[reached], stats, progress, child(path, reached)) === "failed" ? "failed" : "pending";
+  }
+  if (progress[path] === 1) return "met"; // met before the deadline
+  const inner = winStatus(expr.goal, stats, progress, child(path, 0));
+  if (inner === "met") return "met";
+  return inner === "failed" || stats.month > expr.by ? "failed" : "pending";
+}
+
+// Close of a month: count sustained months, tick off milestones, remember met deadlines
+export function advanceWinProgress(expr: WinExpression, stats: GameStats, progress: WinProgress, path = ROOT): WinProgress {
+  let next = progress;
+  if ("all" in expr || "any" in expr) {
+    const parts = "all" in expr ? expr.all : expr.any;
+    parts.forEach((e, i) => (next = advanceWinProgress(e, stats, next, child(path, i))));
+  } else if ("sustain" in expr) {
+    next = advanceWinProgress(expr.sustain, stats, next, child(path, 0));
+    // Once met it stays met, like a milestone
+    if ((next[path] ?? 0) < expr.months) {
+      const held = winStatus(expr.sustain, stats, next, child(path, 0)) === "met";
+      next = { ...next, [path]: held ? (next[path] ?? 0) + 1 : 0 };
+    }
+  } else if ("milestones" in expr) {
+    let reached = next[path] ?? 0;
+    // Only the current step makes progress; several can be reached in the same month
+    while (reached < expr.milestones.length) {
+      const step = child(path, reached);
+      next = advanceWinProgress(expr.milestones[reached], stats, next, step);
+      if (winStatus(expr.milestones[reached], stats, next, step) !== "met") break;
+      reached += 1;
+    }
+    if (reached !== (next[path] ?? 0)) next = { ...next, [path]: reached };
+  } else if ("by" in expr) {
+    next = advanceWinProgress(expr.goal, stats, next, child(path, 0));
+    if (next[path] !== 1 && stats.month - 1 <= expr.by && winStatus(expr.goal, stats, next, child(path, 0)) === "met") {
+      next = { ...next, [path]: 1 };
+    }
+  }
+  return next;
+}
+
+const STAT_LABELS: Record<string, string> = { fixedExpenses: "fixed expenses" };
+const MONEY_STATS = ["savings", "debt", "income", "fixedExpenses", "budget"];
+const formatValue = (stat: string, n: number) => (MONEY_STATS.includes(stat) ? `$${Math.round(n).toLocaleString("en-US")}` : String(n));
+
+export function describeCondition(c: Condition): string {
+  if ("all" in c) return c.all.map(describeCondition).join(" and ");
+  if ("any" in c) return c.any.map(describeCondition).join(" or ");
+  if ("not" in c) return `not (${describeCondition(c.not)})`;
+  if ("month" in c) return `month ${c.month.min ?? 1}-${c.month.max ?? "…"}`;
+  const stat = STAT_LABELS[c.stat] ?? c.stat;
+  if ("compareTo" in c) return `${stat} ${c.operator} ${c.scale && c.scale !== 1 ? `${c.scale} × ` : ""}${STAT_LABELS[c.compareTo] ?? c.compareTo}`;
+  return `${stat} ${c.operator} ${formatValue(c.stat, c.value)}`;
+}
+
+function defaultLabel(expr: WinExpression): string {
+  if ("condition" in expr) return describeCondition(expr.condition);
+  if ("all" in expr) return "All of these";
+  if ("any" in expr) return "Any of these";
+  if ("sustain" in expr) return `Hold for ${expr.months} months in a row`;
+  if ("milestones" in expr) return "In order";
+  return `By month ${expr.by}`;
+}
+
+// How far a single stat comparison has moved from where the run started
+function conditionFraction(c: Condition, stats: GameStats, start: GameStats): number | undefined {
+  if (!("stat" in c) || "compareTo" in c) return undefined;
+  if (evaluateCondition(c, stats)) return 1;
+  const span = c.value - start[c.stat];
+  if (span === 0) return 0;
+  return Math.max(0, Math.min(1, (stats[c.stat] - start[c.stat]) / span));
+}
+
+// Flattened, labelled progress for every part of the goal
+export function winParts(
+  expr: WinExpression,
+  stats: GameStats,
+  start: GameStats,
+  progress: WinProgress,
+  path = ROOT,
+  depth = 0
+): WinPart[] {
+  const part: WinPart = { label: expr.label ?? defaultLabel(expr), depth, status: winStatus(expr, stats, progress, path) };
+  const below = (e: WinExpression, i: number) => winParts(e, stats, start, progress, child(path, i), depth + 1);
+
+  if ("condition" in expr) return [{ ...part, fraction: conditionFraction(expr.condition, stats, start) }];
+  if ("all" in expr || "any" in expr) return [part, ...("all" in expr ? expr.all : expr.any).flatMap(below)];
+  if ("sustain" in expr) {
+    const held = Math.min(progress[path] ?? 0, expr.months);
+    return [{ ...part, detail: `${held} of ${expr.months} months`, fraction: held / expr.months }, ...below(expr.sustain, 0)];
+  }
+  if ("milestones" in expr) {
+    const reached = Math.min(progress[path] ?? 0, expr.milestones.length);
+    const steps = expr.milestones.flatMap((e, i) =>
+      // Steps already reached stay ticked even if their stats have moved on since
+      i < reached ? [{ label: e.label ?? defaultLabel(e), depth: depth + 1, status: "met" as const }] : below(e, i)
+    );
+    return [{ ...part, detail: `${reached} of ${expr.milestones.length} steps`, fraction: reached / expr.milestones.length }, ...steps];
+  }
+  const left = expr.by - stats.month + 1;
+  const detail = part.status === "pending" ? `${left} month${left === 1 ? "" : "s"} left` : undefined;
+  return [{ ...part, detail }, ...below(expr.goal, 0)];
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isMonthCount = (v: unknown): v is number => Number.isInteger(v) && (v as number) > 0;
+
+// Validate untrusted JSON (scenario files, saves). Returns null when malformed.
+export function parseWinExpression(value: unknown): WinExpression | null {
+  if (!isRecord(value)) return null;
+  if (value.label !== undefined && typeof value.label !== "string") return null;
+  const label = value.label === undefined ? {} : { label: value.label as string };
+  const list = (items: unknown) => {
+    if (!Array.isArray(items) || items.length === 0) return null;
+    const parsed = items.map(parseWinExpression);
+    return parsed.some((e) => e === null) ? null : (parsed as WinExpression[]);
+  };
+
+  if ("condition" in value) {
+    const condition = parseCondition(value.condition);
+    return condition && { condition, ...label };
+  }
+  if ("all" in value || "any" in value || "milestones" in value) {
+    const key = "all" in value ? "all" : "any" in value ? "any" : "milestones";
+    const parts = list(value[key]);
+    if (!parts) return null;
+    return key === "all" ? { all: parts, ...label } : key === "any" ? { any: parts, ...label } : { milestones: parts, ...label };
+  }
+  if ("sustain" in value) {
+    const inner = parseWinExpression(value.sustain);
+    return inner && isMonthCount(value.months) ? { sustain: inner, months: value.months, ...label } : null;
+  }
+  if ("by" in value) {
+    const inner = parseWinExpression(value.goal);
+    return inner && isMonthCount(value.by) ? { by: value.by, goal: inner, ...label } : null;
+  }
+  return null;
+}
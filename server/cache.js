@@ -0,0 +1,43 @@
+// Content-addressed cache of generated packs, so identical surveys cost one model call
+import { createHash } from 'node:crypto';
+
+// Same answers, same key: text ignores case and spacing, money is compared in whole dollars
+export function profileKey(profile = {}) {
+  const text = (v) => String(v ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+  const money = (v) => Math.round(Number(v) || 0);
+  const normalized = [
+    text(profile.knowledge),
+    text(profile.risk),
+    text(profile.region),
+    money(profile.income),
+    money(profile.fixedExpenses),
+    money(profile.savings),
+    money(profile.debt),
+    text(profile.goals),
+  ];
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+// In-memory LRU with an expiry; a Map keeps insertion order, so the first key is the least recently used
+export function createPackCache({ maxEntries = 200, ttlMs = 24 * 60 * 60 * 1000 } = {}) {
+  const entries = new Map(); // key -> { pack: { events, goal, report }, storedAt }
+  return {
+    get size() {
+      return entries.size;
+    },
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      entries.delete(key);
+      if (Date.now() - entry.storedAt > ttlMs) return null;
+      entries.set(key, entry);
+      return entry.pack;
+    },
+    set(key, pack) {
+      if (maxEntries <= 0) return;
+      entries.delete(key);
+      entries.set(key, { pack, storedAt: Date.now() });
+      while (entries.size > maxEntries) entries.delete(entries.keys().next().value);
+    },
+  };
+}
@@ -1,20 +1,61 @@
-// Simple backend proxy to generate events with OpenAI
+// Simple backend proxy to generate events with an LLM
 // Usage: set OPENAI_API_KEY in .env or environment and run: node index.js
+// Without a key the offline mock provider is used; see providers/index.js for LLM_PROVIDER.
 
+import { pathToFileURL } from 'node:url';
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import OpenAI from 'openai';
+import { createProvider } from './providers/index.js';
+import { createPackCache, profileKey } from './cache.js';
+import { coachPrompt, offlineAdvice, parseAdvice, readSnapshot } from './coach.js';
+import { corsOptions, createRateLimiter, readProfile } from './limits.js';
+import { log, promptSize } from './log.js';
+import {
+  EVENT_COUNT,
+  TAGS,
+  createPackValidator,
+  feedbackFor,
+  streamFeedbackFor,
+  tagQuota,
+  validateEvents,
+  validateGoal,
+} from './validate.js';
 
 dotenv.config();
 
-const app = express();
-app.use(cors());
-app.use(express.json());
+const PORT = process.env.PORT || 8787;
+// Attempts per request when a generated pack cannot be repaired
+const MAX_ATTEMPTS = Math.max(1, Number(process.env.GENERATE_MAX_ATTEMPTS) || 3);
+const envNumber = (name, fallback) => (process.env[name] != null && process.env[name] !== '' ? Number(process.env[name]) : fallback);
 
-const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const app = express();
+// TRUST_PROXY: hops (e.g. 1) or addresses of the reverse proxy, so rate limits see client IPs
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+app.use(cors(corsOptions(process.env.CORS_ORIGINS)));
+app.use((req, res, next) => {
+  const start = Date.now();
+  res.on('finish', () => {
+    log.info('request', { method: req.method, path: req.path, status: res.statusCode, ip: req.ip, latencyMs: Date.now() - start });
+  });
+  next();
+});
+app.use(express.json({ limit: process.env.MAX_BODY_SIZE || '32kb' }));
 
-const PORT = process.env.PORT || 8787;
+const provider = createProvider();
+// Identical surveys get the same pack back; top-ups are never cached
+const packCache = createPackCache({
+  maxEntries: envNumber('PACK_CACHE_SIZE', 200),
+  ttlMs: envNumber('PACK_CACHE_TTL_MINUTES', 24 * 60) * 60 * 1000,
+});
+// Only the routes that call the model are limited
+const modelLimit = createRateLimiter({
+  windowMs: envNumber('RATE_LIMIT_WINDOW_MINUTES', 15) * 60 * 1000,
+  max: envNumber('RATE_LIMIT_MAX', 30),
+});
 
 // --- Goal parsing helpers ---
 function formatMoney(n) {
@@ -290,13 +331,25 @@ Generate events and a scenario goal as strict JSON following these TypeScript ty
 
 type EventChoice = { id: string; label: string; effects: Partial<{ budget:number; impulse:number; savings:number; debt:number; income:number; fixedExpenses:number; happiness:number; stress:number; }>; log: string; explain?: string };
 
+type Stat = 'month' | 'budget' | 'impulse' | 'savings' | 'debt' | 'income' | 'fixedExpenses' | 'happiness' | 'stress';
+type Operator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+// Plain JSON, never a function
+type Condition =
+  | { stat: Stat; operator: Operator; value: number }
+  | { stat: Stat; operator: Operator; compareTo: Stat; scale?: number }
+  | { month: { min?: number; max?: number } }
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition };
+
 type GameEvent = {
   id: string;
   title: string;
   description: string;
   tag: 'career' | 'lifestyle' | 'social' | 'finance' | 'risk';
   choices: EventChoice[];
-  condition?: never; // don't include functions
+  condition?: Condition; // event is only offered while this holds
   weight?: number;
   cooldown?: number;
 };
@@ -333,6 +386,7 @@ Rules:
 - Provide concise, varied "explain" text for each choice: 1–2 short sentences with cause→effect reasoning. No Markdown.
 - Choice labels must be plain, imperative actions with no numeric or stat hints (no $, +, -, %, numbers), no parentheses, and no stat names (savings, debt, income, fixed expenses, budget, happiness, stress, impulse). Outcome details and numbers must appear only in effects and the optional explain. Example: label: "Take the side gig"; explain: "You will earn extra cash but add stress." Not allowed: label: "Take the side gig (+$200, +5 stress)".
 - Include a cooldown on each event to reduce repetition. You may include optional weight to influence distribution.
+- Use an optional condition only where an event would not make sense otherwise (e.g. a spending event requires savings above the cost, a late-game promotion requires month >= 6). Conditions must be JSON of type Condition; at most 8 of the 20 events may have one, and never gate all events of one tag.
 - Keep events varied, SFW, tone-appropriate, and non-duplicative.
 
 Style Guidance (prose example, not an output example): If the NarrativeContext suggests an elf working at Santa's workshop saving for a summer vacation, let many events reference the workshop, toy production crunches, and holiday shifts, while choices remain financially grounded (scaled to their budget) and tags stay balanced. Sprinkle light keywords like Santa, North Pole, toys across titles, descriptions, and logs without overdoing it.
@@ -348,58 +402,274 @@ Goal constraints (strict):
 - The winCondition must NOT already be satisfied at generation time.
 - goal.description must explicitly reference the improvement relative to the current value (e.g., "Reduce your debt from $12,000 to about $10,200" or "Lower impulse by 3 points").`;
 
-app.post('/api/generate-events', async (req, res) => {
-  try {
-    const profile = req.body ?? {};
+// Streaming variant: one JSON object per line, so each event can be validated
+// and forwarded to the player as soon as the model finishes writing it
+const streamFormat = `Output format override for this request: write NDJSON instead of one EventsResponse object.
+- One line per event: {"type":"event","event":GameEvent}
+- Only when a goal is requested, one final line: {"type":"goal","goal":ScenarioGoal}
+- No other text, no Markdown, no blank lines. The per-tag counts below replace the 20-event rule.`;
+
+function userPromptFor(profile, parsed, themeHints) {
+  const hint = parsed?.winCondition
+    ? `${parsed.winCondition.stat} ${parsed.winCondition.operator} ${parsed.winCondition.value}`
+    : 'none';
+  return `Player Profile (JSON): ${JSON.stringify(profile)}\nNarrativeContext: ${String(profile?.goals || '')}\nThemeHints (JSON): ${JSON.stringify(themeHints)}\nParsedGoalHint: ${hint}\nNote: Heavily use NarrativeContext and ThemeHints to ground event titles, descriptions, choices, and logs, while strictly preserving financial realism, caps, tag balance, and other constraints. The server may enforce a specific goal if provided.\nGenerate tailored events and the improved-status goal.`;
+}
 
+app.post('/api/generate-events', modelLimit, async (req, res) => {
+  const { profile, error } = readProfile(req.body);
+  if (error) return res.status(400).json({ error });
+  const started = Date.now();
+  const key = profileKey(profile);
+  const cached = packCache.get(key);
+  if (cached) {
+    log.info('generate', { route: req.path, ip: req.ip, cached: true, events: cached.events.length, latencyMs: Date.now() - started });
+    return res.json({ ...cached, report: { ...cached.report, cached: true } });
+  }
+  try {
     // Parse an explicit numeric goal if present; this will be enforced server-side
     const parsed = parseUserGoal(String(profile?.goals || ''), profile);
-    const hint = parsed?.winCondition
-      ? `${parsed.winCondition.stat} ${parsed.winCondition.operator} ${parsed.winCondition.value}`
-      : 'none';
 
     // Theme hints based on narrative context (goals text)
     const themeHints = extractThemeHints(String(profile?.goals || ''), profile);
 
-    const userPrompt = `Player Profile (JSON): ${JSON.stringify(profile)}\nNarrativeContext: ${String(profile?.goals || '')}\nThemeHints (JSON): ${JSON.stringify(themeHints)}\nParsedGoalHint: ${hint}\nNote: Heavily use NarrativeContext and ThemeHints to ground event titles, descriptions, choices, and logs, while strictly preserving financial realism, caps, tag balance, and other constraints. The server may enforce a specific goal if provided.\nGenerate tailored events and the improved-status goal.`;
-
-    const completion = await client.responses.create({
-      model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
-      input: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      temperature: 0.8,
-    });
+    const userPrompt = userPromptFor(profile, parsed, themeHints);
+
+    const input = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ];
+
+    // Generate, validate and repair; an unrecoverable pack goes back to the model with feedback
+    let result = null;
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const text = await provider.generate({ input, profile, themeHints, parsedGoal: parsed });
+      // Attempt to parse JSON payload from the assistant text as EventsResponse
+      const jsonStart = text.indexOf('{');
+      const jsonEnd = text.lastIndexOf('}');
+      const slice = jsonStart >= 0 && jsonEnd >= 0 ? text.slice(jsonStart, jsonEnd + 1) : text;
+
+      let data = null;
+      try {
+        data = JSON.parse(slice);
+      } catch {
+        // handled below as an unrecoverable pack
+      }
 
-    const text = completion.output_text || '';
-    // Attempt to parse JSON payload from the assistant text as EventsResponse
-    const jsonStart = text.indexOf('{');
-    const jsonEnd = text.lastIndexOf('}');
-    const slice = jsonStart >= 0 && jsonEnd >= 0 ? text.slice(jsonStart, jsonEnd + 1) : text;
-
-    let data;
-    try {
-      data = JSON.parse(slice);
-    } catch (e) {
-      return res.status(500).json({ error: 'Invalid JSON from model', raw: text });
+      result = data
+        ? validateEvents(data.events, profile)
+        : { ok: false, events: [], report: { repairs: [], dropped: [], problems: ['response was not valid JSON'] } };
+      result.report.attempts = attempt;
+      if (result.ok) {
+        result.goal = validateGoal(data.goal, result.report);
+        break;
+      }
+      log.warn('generate.rejected', { route: req.path, attempt, problems: result.report.problems });
+      input.push({ role: 'assistant', content: text }, { role: 'user', content: feedbackFor(result.report) });
     }
 
-    const events = Array.isArray(data?.events) ? data.events : [];
-    const modelGoal = data?.goal ?? null;
+    log.info('generate', {
+      route: req.path,
+      ip: req.ip,
+      cached: false,
+      provider: provider.name,
+      promptChars: promptSize(input),
+      latencyMs: Date.now() - started,
+      attempts: result.report.attempts,
+      ok: result.ok,
+      events: result.events.length,
+      repairs: result.report.repairs.length,
+      dropped: result.report.dropped.length,
+      problems: result.report.problems,
+    });
+    if (!result.ok) {
+      return res.status(502).json({ error: 'The generated events did not follow the rules. Please try again.', report: result.report });
+    }
+    const { events, goal: modelGoal, report } = result;
 
     // If we parsed a numeric target, override the model's goal
     const finalGoal = parsed?.winCondition && parsed?.override
       ? { description: parsed.description, winCondition: parsed.winCondition }
       : modelGoal;
 
-    return res.json({ events, goal: finalGoal });
+    packCache.set(key, { events, goal: finalGoal, report });
+    return res.json({ events, goal: finalGoal, report });
   } catch (err) {
-    console.error(err);
+    log.error('generate.failed', { route: req.path, provider: provider.name, error: String(err?.message ?? err) });
     res.status(500).json({ error: 'Failed to generate events' });
   }
 });
 
-app.get('/health', (_req, res) => res.json({ ok: true }));
+// Streams validated events as NDJSON lines:
+//   {"type":"event","event":GameEvent}  as each one passes validation
+//   {"type":"goal","goal":ScenarioGoal|null}  new packs only
+//   {"type":"done","ok":boolean,"report":...}  or  {"type":"error","error":string}
+// Send `existing: [{ id, title }]` and `count` to top up a pack in the middle of a run.
+app.post('/api/generate-events/stream', modelLimit, async (req, res) => {
+  const { profile, error } = readProfile(req.body);
+  if (error) return res.status(400).json({ error });
+  const { existing, count } = req.body ?? {};
+  const topUp = Array.isArray(existing);
+  const started = Date.now();
+  const taken = topUp
+    ? existing.filter((e) => typeof e?.id === 'string' && typeof e?.title === 'string').map(({ id, title }) => ({ id, title }))
+    : [];
+  const quota = tagQuota(topUp ? clamp(Math.round(Number(count) || TAGS.length), 1, EVENT_COUNT) : EVENT_COUNT);
+  const parsed = topUp ? null : parseUserGoal(String(profile?.goals || ''), profile);
+  const themeHints = extractThemeHints(String(profile?.goals || ''), profile);
+  const validator = createPackValidator(profile, { quota, taken });
+
+  res.status(200).set({ 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+  res.flushHeaders();
+  const send = (message) => res.write(`${JSON.stringify(message)}\n`);
+
+  const key = topUp ? null : profileKey(profile);
+  const cached = key && packCache.get(key);
+  if (cached) {
+    cached.events.forEach((event) => send({ type: 'event', event }));
+    send({ type: 'goal', goal: cached.goal });
+    send({ type: 'done', ok: true, report: { ...cached.report, cached: true } });
+    log.info('generate', { route: req.path, ip: req.ip, cached: true, events: cached.events.length, latencyMs: Date.now() - started });
+    return res.end();
+  }
+  let closed = false;
+  res.on('close', () => {
+    closed = !res.writableEnded;
+  });
+
+  const wanted = (counts) => Object.entries(counts).map(([tag, n]) => `${n} '${tag}'`).join(', ');
+  const input = [
+    { role: 'system', content: systemPrompt },
+    { role: 'system', content: streamFormat },
+    {
+      role: 'user',
+      content: `${userPromptFor(profile, parsed, themeHints)}\nEvents wanted now: ${wanted(quota)}.${
+        topUp
+          ? `\nThis tops up a running game. Do not send a goal. Do not reuse these ids or titles: ${JSON.stringify(taken)}`
+          : ''
+      }`,
+    },
+  ];
+
+  try {
+    let modelGoal = null;
+    let attempts = 0;
+    while (attempts < MAX_ATTEMPTS && !closed) {
+      attempts += 1;
+      let text = '';
+      let buffer = '';
+      const handleLine = (line) => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('{')) return; // code fences or stray prose
+        let message;
+        try {
+          message = JSON.parse(trimmed);
+        } catch {
+          validator.report.dropped.push('a line was not valid JSON');
+          return;
+        }
+        if (message?.type === 'goal') {
+          if (!topUp) modelGoal = validateGoal(message.goal, validator.report);
+          return;
+        }
+        const event = validator.add(message?.type === 'event' ? message.event : message);
+        if (event) send({ type: 'event', event });
+      };
+
+      const want = { quota: validator.missing(), taken: [...taken, ...validator.accepted()], goal: !topUp && !modelGoal };
+      for await (const chunk of provider.stream({ input, profile, themeHints, parsedGoal: parsed, want })) {
+        if (closed) break;
+        text += chunk;
+        buffer += chunk;
+        const lines = buffer.split('\n');
+        buffer = lines.pop();
+        lines.forEach(handleLine);
+      }
+      handleLine(buffer);
+
+      const missing = validator.missing();
+      if (Object.keys(missing).length === 0) break;
+      log.warn('generate.rejected', { route: req.path, attempt: attempts, missing, problems: validator.report.problems });
+      input.push({ role: 'assistant', content: text }, { role: 'user', content: streamFeedbackFor(validator.report, missing) });
+    }
+    const { ok, events, report } = validator.finish();
+    report.attempts = attempts;
+    log.info('generate', {
+      route: req.path,
+      ip: req.ip,
+      cached: false,
+      topUp,
+      provider: provider.name,
+      promptChars: promptSize(input),
+      latencyMs: Date.now() - started,
+      attempts,
+      ok,
+      events: events.length,
+      repairs: report.repairs.length,
+      dropped: report.dropped.length,
+      problems: report.problems,
+      clientClosed: closed,
+    });
+    if (closed) return;
+
+    if (!topUp) {
+      // If we parsed a numeric target, override the model's goal
+      const goal = parsed?.winCondition && parsed?.override
+        ? { description: parsed.description, winCondition: parsed.winCondition }
+        : modelGoal;
+      send({ type: 'goal', goal });
+      if (ok) packCache.set(key, { events, goal, report });
+    }
+    send({ type: 'done', ok, report });
+  } catch (err) {
+    log.error('generate.failed', { route: req.path, provider: provider.name, error: String(err?.message ?? err) });
+    if (!closed) send({ type: 'error', error: 'Failed to generate events' });
+  }
+  res.end();
+});
+
+// Short advice on a running game: { advice: CoachAdvice, source }.
+// An unusable model answer falls back to the rule-based coach rather than failing.
+app.post('/api/coach', modelLimit, async (req, res) => {
+  const { snapshot, error } = readSnapshot(req.body);
+  if (error) return res.status(400).json({ error });
+  const started = Date.now();
+  const input = [
+    { role: 'system', content: coachPrompt },
+    { role: 'user', content: `GameSnapshot (JSON): ${JSON.stringify(snapshot)}\nReview my recent decisions and tell me what to focus on next month.` },
+  ];
+  let advice = null;
+  try {
+    advice = parseAdvice(await provider.coach({ input, snapshot }));
+  } catch (err) {
+    log.error('coach.failed', { provider: provider.name, error: String(err?.message ?? err) });
+  }
+  const source = advice ? provider.name : 'offline';
+  log.info('coach', {
+    ip: req.ip,
+    provider: provider.name,
+    promptChars: promptSize(input),
+    latencyMs: Date.now() - started,
+    fallback: !advice,
+  });
+  res.json({ advice: advice ?? offlineAdvice(snapshot), source });
+});
+
+app.get('/health', (_req, res) => res.json({ ok: true, provider: provider.name, cachedPacks: packCache.size }));
+
+// Body parser failures (oversized or malformed JSON) answer in JSON like every other error
+app.use((err, req, res, next) => {
+  if (!err?.status || err.status >= 500) return next(err);
+  log.warn('request.rejected', { path: req.path, ip: req.ip, status: err.status, reason: err.type });
+  res.status(err.status).json({ error: err.type === 'entity.too.large' ? 'Request body is too large.' : 'Request body must be valid JSON.' });
+});
+
+// Listen only when run directly; the tests import the app and pick their own port
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  app.listen(PORT, '0.0.0.0', () => {
+    log.info('listening', { port: Number(PORT), provider: provider.name });
+    if (!process.env.CORS_ORIGINS) log.warn('cors.open', { hint: 'set CORS_ORIGINS to the game origin(s) before exposing this server' });
+  });
+}
 
-app.listen(PORT, '0.0.0.0', () => console.log(`AI Event server listening on http://0.0.0.0:${PORT}`));
+export default app;
@@ -0,0 +1,67 @@
+// Abuse limits: per-IP rate limiting, allowed origins and survey field checks
+
+// Fixed window per client IP; max <= 0 turns the limiter off.
+// Behind a proxy set TRUST_PROXY so req.ip is the client, not the proxy.
+export function createRateLimiter({ windowMs = 15 * 60 * 1000, max = 30 } = {}) {
+  if (max <= 0) return (_req, _res, next) => next();
+  const windows = new Map(); // ip -> { start, count }
+  let lastSweep = Date.now();
+  return function rateLimit(req, res, next) {
+    const now = Date.now();
+    if (now - lastSweep >= windowMs) {
+      for (const [ip, window] of windows) if (now - window.start >= windowMs) windows.delete(ip);
+      lastSweep = now;
+    }
+    const ip = req.ip || 'unknown';
+    let window = windows.get(ip);
+    if (!window || now - window.start >= windowMs) {
+      window = { start: now, count: 0 };
+      windows.set(ip, window);
+    }
+    window.count += 1;
+    res.set('RateLimit-Limit', String(max));
+    res.set('RateLimit-Remaining', String(Math.max(0, max - window.count)));
+    if (window.count > max) {
+      const retryAfter = Math.ceil((window.start + windowMs - now) / 1000);
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({ error: `Too many requests. Try again in ${retryAfter} seconds.` });
+    }
+    next();
+  };
+}
+
+// CORS_ORIGINS is a comma-separated allow-list; unset allows any origin (local development)
+export function corsOptions(origins) {
+  const list = String(origins || '')
+    .split(',')
+    .map((o) => o.trim())
+    .filter(Boolean);
+  return { origin: list.length ? list : true, methods: ['GET', 'POST'] };
+}
+
+export const MAX_GOALS_LENGTH = 500;
+const TEXT_FIELDS = ['knowledge', 'risk', 'region'];
+const MONEY_FIELDS = ['income', 'fixedExpenses', 'savings', 'debt'];
+
+// Only the survey fields reach the prompt and the cache key; anything else in the body is dropped.
+// Returns { profile } or { error }.
+export function readProfile(body) {
+  const profile = {};
+  for (const field of TEXT_FIELDS) {
+    if (body?.[field] == null) continue;
+    if (typeof body[field] !== 'string' || body[field].length > 40) return { error: `${field} must be a short text` };
+    profile[field] = body[field];
+  }
+  for (const field of MONEY_FIELDS) {
+    if (body?.[field] == null) continue;
+    const n = Number(body[field]);
+    if (!Number.isFinite(n) || Math.abs(n) > 1e9) return { error: `${field} must be a number` };
+    profile[field] = n;
+  }
+  if (body?.goals != null) {
+    if (typeof body.goals !== 'string') return { error: 'goals must be text' };
+    if (body.goals.length > MAX_GOALS_LENGTH) return { error: `goals must be at most ${MAX_GOALS_LENGTH} characters` };
+    profile.goals = body.goals;
+  }
+  return { profile };
+}
@@ -0,0 +1,18 @@
+// Structured logs: one JSON object per line on stdout, so a classroom run can be
+// grepped or shipped to a collector for cost and abuse checks
+function write(level, event, fields = {}) {
+  const line = JSON.stringify({ time: new Date().toISOString(), level, event, ...fields });
+  if (level === 'error') console.error(line);
+  else console.log(line);
+}
+
+export const log = {
+  info: (event, fields) => write('info', event, fields),
+  warn: (event, fields) => write('warn', event, fields),
+  error: (event, fields) => write('error', event, fields),
+};
+
+// Characters sent to the model, a rough stand-in for prompt tokens
+export function promptSize(input) {
+  return input.reduce((n, message) => n + String(message.content ?? '').length, 0);
+}
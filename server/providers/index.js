@@ -0,0 +1,25 @@
+// Provider selection
+// A provider turns a prompt (plus the parsed profile for offline providers) into raw model text:
+//   {
+//     name: string,
+//     generate({ input, profile, themeHints, parsedGoal }) => Promise<string>,
+//     stream({ ...same, want: { quota, taken } }) => AsyncIterable<string>, // NDJSON text chunks
+//     coach({ input, snapshot }) => Promise<string>, // CoachAdvice JSON, see coach.js
+//   }
+import { createOpenAIProvider, createCompatibleProvider } from './openai.js';
+import { createMockProvider } from './mock.js';
+
+// LLM_PROVIDER: openai | compatible | mock (default: openai with a key, otherwise mock)
+export function createProvider(env = process.env) {
+  const kind = (env.LLM_PROVIDER || (env.OPENAI_API_KEY ? 'openai' : 'mock')).toLowerCase();
+  switch (kind) {
+    case 'openai':
+      return createOpenAIProvider({ apiKey: env.OPENAI_API_KEY, model: env.OPENAI_MODEL || 'gpt-4o-mini' });
+    case 'compatible':
+      return createCompatibleProvider({ baseURL: env.LLM_BASE_URL, apiKey: env.LLM_API_KEY, model: env.LLM_MODEL });
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${kind}" (expected openai, compatible or mock)`);
+  }
+}
@@ -0,0 +1,282 @@
+// Offline template provider
+// Builds a valid, themed EventsResponse from the profile and theme hints alone.
+// The same profile always produces the same pack, so it suits offline play and tests.
+import { offlineAdvice } from '../coach.js';
+
+const TAG_ORDER = ['career', 'lifestyle', 'social', 'finance', 'risk'];
+
+const round10 = (n) => Math.max(10, Math.round(n / 10) * 10);
+const money = (n) => `$${Math.round(n).toLocaleString('en-US')}`;
+
+// FNV-1a, so cooldowns vary by profile without any randomness
+function hash(text) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Amounts stay well inside the validator's caps for any profile
+function scale(profile) {
+  const income = Math.max(0, Number(profile?.income) || 0);
+  const fixed = Math.max(0, Number(profile?.fixedExpenses) || 0);
+  const unit = Math.min(200, round10(Math.abs(income - fixed) * 0.1));
+  return {
+    unit,
+    half: round10(unit / 2),
+    income: Math.min(100, round10(income * 0.05)),
+    fixed: Math.min(100, round10(fixed * 0.05)),
+    debt: Math.min(400, unit * 2),
+  };
+}
+
+function context(hints, profile) {
+  return {
+    job: hints?.occupation || hints?.persona || 'your job',
+    place: hints?.setting || profile?.region || 'town',
+    when: hints?.timeframe || 'the long weekend',
+    motive: hints?.motivation || 'your goal',
+    theme: hints?.keywords?.[0] || 'local',
+  };
+}
+
+const templates = {
+  career: [
+    (c, s) => ({
+      title: `Extra Shifts at ${c.place}`,
+      description: `Your ${c.job === 'your job' ? '' : `${c.job} `}team is short-staffed and asks you to pick up extra shifts.`,
+      choices: [
+        { id: 'take-shifts', label: 'Pick up the shifts', effects: { savings: s.unit * 2, stress: 6, happiness: -2 }, log: 'You worked the extra shifts and banked the pay.', explain: 'More hours bring in cash but wear you down.' },
+        { id: 'usual-hours', label: 'Keep your usual hours', effects: { stress: -2 }, log: 'You kept your schedule steady.', explain: 'Protecting your time keeps stress in check.' },
+      ],
+    }),
+    (c, s) => ({
+      title: 'Training Course Offer',
+      description: `A short course could sharpen your skills for ${c.job}.`,
+      choices: [
+        { id: 'enroll', label: 'Enroll in the course', effects: { savings: -s.unit, income: s.income, stress: 3 }, log: 'You enrolled and picked up new skills.', explain: 'Paying to learn now can raise what you earn each month.' },
+        { id: 'skip-course', label: 'Skip it this time', effects: { happiness: 1 }, log: 'You passed on the course for now.', explain: 'You keep your cash and your evenings free.' },
+      ],
+    }),
+    (c, s) => ({
+      title: 'Asking for a Raise',
+      description: `Review season is coming up at ${c.place}. You have a good case for a raise.`,
+      choices: [
+        { id: 'ask-raise', label: 'Ask for a raise', effects: { income: s.income, stress: 4 }, log: 'You asked for a raise and got it.', explain: 'Negotiating is stressful, but a raise pays off every month.' },
+        { id: 'wait-raise', label: 'Wait until next year', effects: { happiness: -1 }, log: 'You decided to wait.', explain: 'Avoiding the conversation means no change in pay.' },
+      ],
+    }),
+    (c, s) => ({
+      title: 'Weekend Side Project',
+      description: `Someone near ${c.place} wants help with a ${c.theme} project.`,
+      choices: [
+        { id: 'take-project', label: 'Take on the project', effects: { savings: s.unit, stress: 4, happiness: 1 }, log: 'You finished the side project and got paid.', explain: 'Extra work brings a one-off payment and some stress.' },
+        { id: 'decline-project', label: 'Politely decline', effects: { stress: -1 }, log: 'You turned the project down.', explain: 'Rest now keeps you fresh for your main work.' },
+      ],
+    }),
+  ],
+  lifestyle: [
+    (c, s) => ({
+      title: 'Treat Yourself Sale',
+      description: `A shop in ${c.place} has a big sale on things you have been eyeing.`,
+      condition: { stat: 'savings', operator: '>', value: s.unit * 3 },
+      choices: [
+        { id: 'buy-treat', label: 'Buy something nice', effects: { savings: -s.unit, happiness: 4, impulse: 3 }, log: 'You treated yourself.', explain: 'A purchase lifts your mood but feeds the spending habit.' },
+        { id: 'walk-away', label: 'Walk away', effects: { impulse: -2, happiness: -1 }, log: 'You left without buying anything.', explain: 'Resisting builds self-control.' },
+      ],
+    }),
+    (c, s) => ({
+      title: 'Takeout Habit',
+      description: 'Late nights have you ordering food most evenings.',
+      choices: [
+        { id: 'cook-home', label: 'Cook at home this month', effects: { savings: s.unit, happiness: -1, impulse: -2 }, log: 'You cooked at home and kept more cash.', explain: 'Home cooking costs less and breaks an impulse habit.' },
+        { id: 'keep-ordering', label: 'Keep ordering in', effects: { savings: -s.half, happiness: 2, impulse: 2 }, log: 'You kept ordering takeout.', explain: 'Convenience feels good but adds up.' },
+      ],
+    }),
+    (c, s) => ({
+      title: 'Gym Membership Pitch',
+      description: `A new gym near ${c.place} is offering memberships.`,
+      choices: [
+        { id: 'join-gym', label: 'Sign up for the gym', effects: { fixedExpenses: s.fixed, happiness: 3, stress: -3 }, log: 'You joined the gym.', explain: 'Exercise lowers stress but adds a monthly bill.' },
+        { id: 'run-outside', label: 'Run outside instead', effects: { stress: -1 }, log: 'You started running outdoors.', explain: 'Free exercise still helps a little.' },
+      ],
+    }),
+    (c, s) => ({
+      title: 'Phone Upgrade',
+      description: 'Your phone is slow and a new model just launched.',
+      choices: [
+        { id: 'upgrade-phone', label: 'Upgrade on a payment plan', effects: { debt: s.debt, happiness: 3, impulse: 2 }, log: 'You financed a new phone.', explain: 'Financing spreads the cost but adds to what you owe.' },
+        { id: 'keep-phone', label: 'Keep your old phone', effects: { impulse: -2 }, log: 'You kept your old phone going.', explain: 'Making do avoids new borrowing.' },
+      ],
+    }),
+  ],
+  social: [
+    (c, s) => ({
+      title: "Friend's Birthday Dinner",
+      description: `A close friend is celebrating at a restaurant in ${c.place}.`,
+      choices: [
+        { id: 'go-dinner', label: 'Go to the dinner', effects: { savings: -s.half, happiness: 4 }, log: 'You celebrated with your friend.', explain: 'Time with friends is worth something, and so is the bill.' },
+        { id: 'send-card', label: 'Send a card instead', effects: { happiness: -2, stress: 1 }, log: 'You sent a card.', explain: 'You save money but miss out.' },
+      ],
+    }),
+    (c, s) => ({
+      title: 'Group Trip Invite',
+      description: `Friends are planning a trip for ${c.when}.`,
+      condition: { stat: 'savings', operator: '>', value: s.unit * 4 },
+      choices: [
+        { id: 'join-trip', label: 'Join the trip', effects: { savings: -s.unit * 2, happiness: 6, stress: -4 }, log: 'You went on the trip.', explain: 'A break recharges you but costs a fair bit.' },
+        { id: 'stay-home', label: 'Stay home', effects: { happiness: -3 }, log: 'You skipped the trip.', explain: 'Staying home keeps your cash for other plans.' },
+      ],
+    }),
+    (c, s) => ({
+      title: 'Lending to a Friend',
+      description: `A friend from ${c.place} asks to borrow money until their next paycheck.`,
+      choices: [
+        { id: 'lend', label: 'Lend the money', effects: { savings: -s.unit, happiness: 2, stress: 2 }, log: 'You lent your friend some money.', explain: 'Helping feels good, though you may not see it back soon.' },
+        { id: 'say-no', label: 'Say no kindly', effects: { stress: 1, happiness: -1 }, log: 'You said no.', explain: 'Your cash stays put, at a small social cost.' },
+      ],
+    }),
+    (c, s) => ({
+      title: 'Community Event',
+      description: `A ${c.theme} event in ${c.place} is looking for helpers.`,
+      choices: [
+        { id: 'volunteer', label: 'Volunteer your time', effects: { happiness: 3, stress: -2 }, log: 'You volunteered at the event.', explain: 'Giving time costs nothing and lifts your mood.' },
+        { id: 'buy-ticket', label: 'Buy a ticket instead', effects: { savings: -s.half, happiness: 2 }, log: 'You bought a ticket and enjoyed the day.', explain: 'A fun day out has a price.' },
+      ],
+    }),
+  ],
+  finance: [
+    (c, s) => ({
+      title: 'High-Yield Account Offer',
+      description: 'Your bank offers a better rate if you move your spare cash.',
+      choices: [
+        { id: 'open-account', label: 'Open the account', effects: { savings: round10(s.unit / 5), stress: -1 }, log: 'You moved your cash to a better account.', explain: 'A higher rate grows your cash a little faster.' },
+        { id: 'leave-it', label: 'Leave things as they are', effects: { stress: 1 }, log: 'You left your accounts alone.', explain: 'Nothing changes, including the low rate.' },
+      ],
+    }),
+    (c, s) => ({
+      title: 'Automatic Transfer Setup',
+      description: `You could set up an automatic transfer toward ${c.motive}.`,
+      choices: [
+        { id: 'automate', label: 'Automate your saving', effects: { savings: s.unit, impulse: -3, happiness: -1 }, log: 'You set up an automatic transfer.', explain: 'Paying yourself first removes the temptation to spend.' },
+        { id: 'manual', label: 'Save by hand', effects: { impulse: 1 }, log: 'You kept saving by hand.', explain: 'Manual saving is easy to skip.' },
+      ],
+    }),
+    (c, s) => ({
+      title: 'Tax Refund Arrives',
+      description: 'A refund landed in your account.',
+      choices: [
+        { id: 'put-aside', label: 'Put it all aside', effects: { savings: s.unit * 2, happiness: 1 }, log: 'You set the refund aside.', explain: 'Keeping the whole refund gives your cushion a boost.' },
+        { id: 'spend-some', label: 'Spend part of it', effects: { savings: s.unit, happiness: 4, impulse: 2 }, log: 'You spent part of the refund.', explain: 'You enjoy some now and keep the rest.' },
+      ],
+    }),
+    (c, s) => ({
+      title: 'Money App Trial',
+      description: 'A free trial of a money-tracking app pops up.',
+      choices: [
+        { id: 'try-app', label: 'Try the app', effects: { impulse: -3, stress: 1 }, log: 'You started tracking every purchase.', explain: 'Seeing your spending makes you think twice.' },
+        { id: 'spreadsheet', label: 'Stick with your spreadsheet', effects: { stress: -1 }, log: 'You kept your old system.', explain: 'Familiar tools are less hassle.' },
+      ],
+    }),
+  ],
+  risk: [
+    (c, s) => ({
+      title: 'Car Trouble',
+      description: 'Your car makes a worrying noise on the way to work.',
+      choices: [
+        { id: 'fix-properly', label: 'Fix it properly', effects: { savings: -s.unit * 2, stress: 2 }, log: 'You paid for a proper repair.', explain: 'A full repair costs more now but avoids bigger bills.' },
+        { id: 'patch-it', label: 'Patch it cheaply', effects: { savings: -s.half, stress: 5 }, log: 'You went with a cheap patch.', explain: 'Saving money now leaves you worried about the next breakdown.' },
+      ],
+    }),
+    (c, s) => ({
+      title: 'Hot Investment Tip',
+      description: `Someone in ${c.place} swears by a hot investment.`,
+      choices: [
+        { id: 'buy-tip', label: 'Put money in', effects: { savings: -s.unit, stress: 4, impulse: 3 }, log: 'You bought in on the tip.', explain: 'Chasing tips is risky and often loses money.' },
+        { id: 'research', label: 'Do your own research', effects: { impulse: -2 }, log: 'You researched and passed.', explain: 'Slowing down protects your cash.' },
+      ],
+    }),
+    (c, s) => ({
+      title: 'Surprise Medical Bill',
+      description: 'A bill arrives for a recent doctor visit.',
+      choices: [
+        { id: 'pay-now', label: 'Pay it right away', effects: { savings: -s.unit, stress: -1 }, log: 'You paid the bill.', explain: 'Paying now uses cash but clears your mind.' },
+        { id: 'use-card', label: 'Put it on a card', effects: { debt: s.unit, stress: 3 }, log: 'You put the bill on your card.', explain: 'Your cash stays put but you now owe interest.' },
+      ],
+    }),
+    (c, s) => ({
+      title: 'Lost Wallet',
+      description: `You lost your wallet somewhere around ${c.place}.`,
+      choices: [
+        { id: 'replace-now', label: 'Replace everything now', effects: { savings: -s.half, stress: 2 }, log: 'You replaced your cards and ID.', explain: 'Replacing things costs a little but ends the worry.' },
+        { id: 'search', label: 'Wait and search', effects: { stress: 4, happiness: -1 }, log: 'You kept searching for the wallet.', explain: 'Waiting is free but stressful.' },
+      ],
+    }),
+  ],
+};
+
+// Improve savings by about 10% unless the server already parsed a goal
+function defaultGoal(profile, parsedGoal) {
+  if (parsedGoal?.winCondition) return { description: parsedGoal.description, winCondition: parsedGoal.winCondition };
+  const current = Math.max(0, Number(profile?.savings) || 0);
+  const target = Math.round((current + Math.min(1500, Math.max(100, current * 0.1))) / 50) * 50;
+  return {
+    description: `Grow your savings from ${money(current)} to ${money(target)}.`,
+    winCondition: { stat: 'savings', operator: '>=', value: target },
+  };
+}
+
+export function buildMockResponse({ profile = {}, themeHints = {}, parsedGoal = null } = {}) {
+  const c = context(themeHints, profile);
+  const s = scale(profile);
+  const seed = hash(JSON.stringify(profile));
+  const events = TAG_ORDER.flatMap((tag) =>
+    templates[tag].map((make, i) => ({
+      id: `${tag}-${i + 1}`,
+      tag,
+      cooldown: 2 + ((seed >>> (i * 2)) % 3),
+      ...make(c, s),
+    }))
+  );
+  return { events, goal: defaultGoal(profile, parsedGoal) };
+}
+
+// A tag's templates in order, then numbered reruns once every title is taken
+function* freshEvents(events, tag, takenTitles) {
+  const base = events.filter((e) => e.tag === tag);
+  for (let round = 1; round <= 9; round++) {
+    for (const e of base) {
+      const event = round === 1 ? e : { ...e, id: `${e.id}-${round}`, title: `${e.title} (part ${round})` };
+      if (!takenTitles.has(event.title.toLowerCase())) yield event;
+    }
+  }
+}
+
+export function createMockProvider() {
+  return {
+    name: 'mock',
+    async generate(request) {
+      return JSON.stringify(buildMockResponse(request));
+    },
+    async coach({ snapshot }) {
+      return JSON.stringify(offlineAdvice(snapshot));
+    },
+    // NDJSON, one event per line, honouring the requested per-tag counts
+    async *stream({ want = {}, ...request }) {
+      const { events, goal } = buildMockResponse(request);
+      const takenTitles = new Set((want.taken ?? []).map((e) => String(e.title).toLowerCase()));
+      for (const tag of TAG_ORDER) {
+        const source = freshEvents(events, tag, takenTitles);
+        for (let i = 0; i < (want.quota?.[tag] ?? 0); i++) {
+          const next = source.next();
+          if (next.done) break;
+          takenTitles.add(next.value.title.toLowerCase());
+          yield `${JSON.stringify({ type: 'event', event: next.value })}\n`;
+        }
+      }
+      if (want.goal) yield `${JSON.stringify({ type: 'goal', goal })}\n`;
+    },
+  };
+}
@@ -0,0 +1,45 @@
+// OpenAI and OpenAI-compatible (Ollama, LM Studio, vLLM, ...) providers
+import OpenAI from 'openai';
+
+// Hosted OpenAI through the Responses API
+export function createOpenAIProvider({ apiKey, model = 'gpt-4o-mini', temperature = 0.8 } = {}) {
+  const client = new OpenAI({ apiKey });
+  const complete = async (input) => {
+    const completion = await client.responses.create({ model, input, temperature });
+    return completion.output_text || '';
+  };
+  return {
+    name: `openai:${model}`,
+    generate: ({ input }) => complete(input),
+    coach: ({ input }) => complete(input),
+    async *stream({ input }) {
+      const stream = await client.responses.create({ model, input, temperature, stream: true });
+      for await (const event of stream) {
+        if (event.type === 'response.output_text.delta') yield event.delta;
+      }
+    },
+  };
+}
+
+// Local and third-party servers mostly speak Chat Completions only
+export function createCompatibleProvider({ baseURL, apiKey = 'not-needed', model, temperature = 0.8 } = {}) {
+  if (!baseURL) throw new Error('LLM_BASE_URL is required for the compatible provider');
+  if (!model) throw new Error('LLM_MODEL is required for the compatible provider');
+  const client = new OpenAI({ baseURL, apiKey });
+  const complete = async (input) => {
+    const completion = await client.chat.completions.create({ model, messages: input, temperature });
+    return completion.choices?.[0]?.message?.content || '';
+  };
+  return {
+    name: `compatible:${model}@${baseURL}`,
+    generate: ({ input }) => complete(input),
+    coach: ({ input }) => complete(input),
+    async *stream({ input }) {
+      const stream = await client.chat.completions.create({ model, messages: input, temperature, stream: true });
+      for await (const chunk of stream) {
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { offlineAdvice, readSnapshot } from '../coach.js';
+
+const stats = { month: 6, budget: 0, impulse: 30, savings: 4000, debt: 10500, income: 3000, fixedExpenses: 1500, happiness: 60, stress: 40 };
+const debtSpiral = (scale) => ({
+  label: `Debt above ${scale} × income`,
+  condition: { stat: 'debt', operator: '>', compareTo: 'income', scale },
+});
+
+const adviceFor = (loseRules, overrides = {}) => {
+  const { snapshot, error } = readSnapshot({ stats: { ...stats, ...overrides }, loseRules });
+  assert.equal(error, undefined);
+  return offlineAdvice(snapshot);
+};
+
+test('readSnapshot keeps well-formed lose rules and drops the rest', () => {
+  const { snapshot } = readSnapshot({
+    stats,
+    loseRules: [
+      { ...debtSpiral(4), months: 2, detail: '1 of 2 months' },
+      { label: 'Miss loan payments', missedPayment: true },
+      { label: 'No condition' },
+      { condition: { stat: 'stress', operator: '>', value: 95 } },
+    ],
+  });
+  assert.deepEqual(snapshot.loseRules, [
+    { ...debtSpiral(4), months: 2, detail: '1 of 2 months' },
+    { label: 'Miss loan payments', missedPayment: true },
+  ]);
+});
+
+test('the debt warning follows the scenario rule, not a fixed ratio', () => {
+  assert.equal(adviceFor([debtSpiral(4)]).priorities[0], 'Stop adding debt: it is 3.5 times your income, and the run ends past 4 times.');
+  assert.ok(adviceFor([debtSpiral(8)]).priorities.every((p) => !p.includes('times your income')));
+  assert.ok(adviceFor([]).priorities.every((p) => !p.includes('times your income')));
+});
+
+test('a stat near a fixed limit and a running streak are both warned about', () => {
+  const { priorities } = adviceFor(
+    [
+      { label: 'Stress above 95', condition: { stat: 'stress', operator: '>', value: 95 } },
+      { label: 'No cash left for 3 months', condition: { stat: 'savings', operator: '<=', value: 0 }, months: 3, detail: '2 of 3 months' },
+    ],
+    { stress: 88, savings: 0 }
+  );
+  assert.deepEqual(priorities.slice(0, 2), [
+    'Watch your stress: at 88 it is close to "Stress above 95", which ends the run at once.',
+    'Get clear of "No cash left for 3 months" next month: 2 of 3 months so far.',
+  ]);
+});
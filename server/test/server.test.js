@@ -0,0 +1,77 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EVENT_COUNT, TAGS, validateEvents } from '../validate.js';
+
+const profile = { income: 4200, fixedExpenses: 2600, savings: 3000, debt: 8000, risk: 'medium', goals: 'Save $10000 within 12 months' };
+
+let server;
+let base;
+
+before(async () => {
+  process.env.LLM_PROVIDER = 'mock';
+  const { default: app } = await import('../index.js');
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  base = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => new Promise((resolve) => server.close(resolve)));
+
+const post = (path, body) =>
+  fetch(`${base}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+async function readStream(body) {
+  const res = await post('/api/generate-events/stream', body);
+  assert.equal(res.status, 200);
+  return (await res.text()).split('\n').filter(Boolean).map((line) => JSON.parse(line));
+}
+
+// Valid packs pass the validator again unchanged
+function assertValidPack(events, count = EVENT_COUNT) {
+  const again = validateEvents(events, profile);
+  assert.equal(events.length, count);
+  assert.deepEqual(again.report.dropped, []);
+  assert.deepEqual(again.report.repairs, []);
+  if (count === EVENT_COUNT) assert.equal(again.ok, true);
+}
+
+test('generate-events returns a full, valid pack and a goal', async () => {
+  const res = await post('/api/generate-events', profile);
+  assert.equal(res.status, 200);
+  const { events, goal, report } = await res.json();
+  assertValidPack(events);
+  for (const tag of TAGS) assert.equal(events.filter((e) => e.tag === tag).length, EVENT_COUNT / TAGS.length);
+  assert.equal(goal.winCondition.stat, 'savings');
+  assert.deepEqual(report.problems, []);
+});
+
+test('generate-events rejects a malformed profile', async () => {
+  const res = await post('/api/generate-events', { ...profile, income: 'lots' });
+  assert.equal(res.status, 400);
+  assert.equal((await res.json()).error, 'income must be a number');
+});
+
+test('the stream sends a valid pack, the goal, then done', async () => {
+  const messages = await readStream({ ...profile, goals: 'Pay off my debt' });
+  const events = messages.filter((m) => m.type === 'event').map((m) => m.event);
+  assertValidPack(events);
+  assert.equal(messages.filter((m) => m.type === 'goal').length, 1);
+  const done = messages.at(-1);
+  assert.equal(done.type, 'done');
+  assert.equal(done.ok, true);
+});
+
+test('a stream top-up sends only new events for the count asked', async () => {
+  const first = await readStream(profile);
+  const existing = first.filter((m) => m.type === 'event').map(({ event }) => ({ id: event.id, title: event.title }));
+  const messages = await readStream({ ...profile, existing, count: 5 });
+  const events = messages.filter((m) => m.type === 'event').map((m) => m.event);
+  assertValidPack(events, 5);
+  assert.deepEqual(events.map((e) => e.tag).sort(), [...TAGS].sort());
+  const titles = new Set(existing.map((e) => e.title.toLowerCase()));
+  assert.ok(events.every((e) => !titles.has(e.title.toLowerCase())));
+  const ids = new Set(existing.map((e) => e.id));
+  assert.ok(events.every((e) => !ids.has(e.id)));
+  assert.equal(messages.some((m) => m.type === 'goal'), false);
+  assert.equal(messages.at(-1).ok, true);
+});
@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EVENT_COUNT, TAGS, createPackValidator, effectCaps, stripLabelHints, tagQuota, validateEvents } from '../validate.js';
+
+const profile = { income: 4000, fixedExpenses: 2000, savings: 3000, debt: 1000 };
+
+const choice = (id, overrides = {}) => ({ id, label: `Go with plan ${id.toUpperCase()}`, effects: { happiness: 2 }, log: `You picked ${id}.`, ...overrides });
+const event = (id, tag, overrides = {}) => ({
+  id,
+  title: `Title ${id}`,
+  description: `Something about ${id} happens.`,
+  tag,
+  choices: [choice('a'), choice('b')],
+  ...overrides,
+});
+const fullPack = () => TAGS.flatMap((tag) => [1, 2, 3, 4].map((n) => event(`${tag}-${n}`, tag)));
+
+test('stripLabelHints removes hints and rejects labels that lose words they need', () => {
+  const cases = [
+    ['Take the job (+$500 income)', 'Take the job'],
+    ['Skip the trip -5 stress', 'Skip the trip'],
+    ['Stay home [+3 happiness]', 'Stay home'],
+    ['Take the job, +$500 income', 'Take the job'],
+    ['Buy 2 tickets', 'Buy tickets'],
+    ['Keep saving', 'Keep saving'],
+    ['Take plan A', 'Take plan A'],
+    ['Keep ordering in', 'Keep ordering in'],
+    ['Pay $500', null],
+    ['+$200 savings', null],
+    ['Buy a used car for $8,000', null],
+    ['Put $200 into savings', null],
+    ['Lend $500 to a friend', null],
+    ['Reduce stress with yoga', null],
+    ['Accept, income +$500', null],
+  ];
+  for (const [label, expected] of cases) assert.equal(stripLabelHints(label), expected, label);
+});
+
+test('a full pack passes without repairs', () => {
+  const { ok, events, report } = validateEvents(fullPack(), profile);
+  assert.equal(ok, true);
+  assert.equal(events.length, EVENT_COUNT);
+  assert.deepEqual(report, { repairs: [], dropped: [], problems: [] });
+});
+
+test('effects are clamped to the profile caps and unknown effects removed', () => {
+  const caps = effectCaps(profile);
+  const pack = fullPack();
+  pack[0].choices[0].effects = { savings: 99999, stress: -50, luck: 3 };
+  const { events, report } = validateEvents(pack, profile);
+  assert.deepEqual(events[0].choices[0].effects, { savings: caps.savings, stress: -caps.stress });
+  assert.ok(report.repairs.some((r) => r.includes('removed unknown effect "luck"')));
+  assert.ok(report.repairs.some((r) => r.includes('clamped savings 99999')));
+});
+
+test('a choice whose label is only numbers is dropped, and the event with it', () => {
+  const pack = fullPack();
+  pack[0].choices[1].label = 'Pay $500';
+  const { ok, report } = validateEvents(pack, profile);
+  assert.equal(ok, false);
+  assert.ok(report.dropped.some((d) => d.includes('without numbers or stat names')));
+  assert.ok(report.dropped.some((d) => d.includes('needs at least two usable choices')));
+  assert.deepEqual(report.problems, ["need 1 more usable 'career' event(s)"]);
+});
+
+test('repayment events, unknown tags and duplicate titles are dropped', () => {
+  const pack = fullPack();
+  pack[0] = event('payoff', 'career', { title: 'Pay off your loan early' });
+  pack[1] = event('odd', 'hobby');
+  pack[2] = event('copy', 'career', { title: pack[3].title });
+  const { report } = validateEvents(pack, profile);
+  assert.equal(report.dropped.length, 3);
+  assert.match(report.dropped[0], /built into the game/);
+  assert.match(report.dropped[1], /unknown tag "hobby"/);
+  assert.match(report.dropped[2], /duplicate title/);
+});
+
+test('duplicate ids are renamed and extra events of a tag are dropped', () => {
+  const pack = fullPack();
+  pack.push(event('career-5', 'career'));
+  pack[5] = event('career-1', 'lifestyle', { title: 'Another title' });
+  const { ok, events, report } = validateEvents(pack, profile);
+  assert.equal(ok, true);
+  assert.ok(events.some((e) => e.id === 'career-1-2'));
+  assert.ok(report.dropped.some((d) => d.includes('more than 4 career events')));
+});
+
+test('choice ids are repaired within their event', () => {
+  const pack = fullPack();
+  pack[0].choices = [choice('same'), choice('same'), { label: 'Walk away quietly', log: 'You leave.' }];
+  const { events } = validateEvents(pack, profile);
+  assert.deepEqual(events[0].choices.map((c) => c.id), ['same', 'same-2', 'choice-3']);
+});
+
+test('not every event of a tag may be gated by a condition', () => {
+  const condition = { stat: 'savings', operator: '>', value: 100 };
+  const pack = fullPack().map((e) => (e.tag === 'career' ? { ...e, condition } : e));
+  const { events } = validateEvents(pack, profile);
+  const career = events.filter((e) => e.tag === 'career');
+  assert.equal(career.filter((e) => e.condition).length, 3);
+});
+
+test('a top-up validator fills its quota and avoids the pack it tops up', () => {
+  const validator = createPackValidator(profile, { quota: tagQuota(2), taken: [{ id: 'career-1', title: 'Title career-1' }] });
+  assert.equal(validator.add(event('career-1', 'career')), null);
+  assert.equal(validator.add(event('career-1', 'career', { title: 'A fresh title' })).id, 'career-1-2');
+  assert.equal(validator.add(event('career-9', 'career')), null);
+  assert.deepEqual(validator.missing(), { lifestyle: 1 });
+  validator.add(event('lifestyle-9', 'lifestyle'));
+  assert.equal(validator.finish().ok, true);
+});
+
+test('anything but an array is rejected', () => {
+  const { ok, report } = validateEvents({ events: [] }, profile);
+  assert.equal(ok, false);
+  assert.deepEqual(report.problems, ['events must be a JSON array']);
+});
@@ -0,0 +1,276 @@
+// Validation and repair of AI-generated event packs
+// Enforces the rules in the system prompt and reports everything it had to fix.
+
+export const TAGS = ['career', 'lifestyle', 'social', 'finance', 'risk'];
+export const EVENTS_PER_TAG = 4;
+export const EVENT_COUNT = TAGS.length * EVENTS_PER_TAG;
+export const MAX_CONDITIONED = 8;
+
+const STATS = ['month', 'budget', 'impulse', 'savings', 'debt', 'income', 'fixedExpenses', 'happiness', 'stress'];
+const EFFECT_KEYS = STATS.filter((s) => s !== 'month');
+const OPERATORS = ['<', '<=', '>', '>=', '==', '!='];
+const WIN_STATS = ['savings', 'debt', 'income', 'impulse', 'stress', 'happiness', 'fixedExpenses'];
+const WIN_OPERATORS = ['<', '<=', '>', '>='];
+
+// Events the game injects itself; generated ones are dropped
+const REPAYMENT_RE = /debt\s*repayment|pay\s*(down|off)\s*(your\s*|the\s*|some\s*)?(debt|loan|balance)|extra\s*(debt\s*)?payment|(cut|negotiate|reduce|lower)\s*(your\s*)?(recurring|fixed|monthly)\s*(bills|expenses|costs)/i;
+
+const STAT_WORDS = 'savings|debt|income|fixed\\s*expenses|budget|happiness|stress|impulse';
+const HINT_PARENS_RE = /\s*[([][^)\]]*[)\]]/g;
+const NUMERIC_HINT = `\\s*[+\\-−]?\\s*\\$?\\d[\\d,.]*(?:k\\b)?%?(?:\\s*(?:${STAT_WORDS}))?`;
+const NUMERIC_HINT_RE = new RegExp(NUMERIC_HINT, 'gi');
+const STAT_WORD_RE = new RegExp(`\\b(?:${STAT_WORDS})\\b`, 'i');
+// Stat names and separators left at the end once the numbers are gone ("Accept, income")
+const TRAILING_STATS_RE = new RegExp(`(?:[\\s,;:-]|\\b(?:${STAT_WORDS})\\b)+$`, 'i');
+const SYMBOL_RE = /[$%+]/g;
+// Words a label cannot end on without missing their object. Particles such as "in" or "off"
+// end phrasal verbs ("Keep ordering in"), so they only count right after a removed amount.
+const OBJECT_WORDS = 'a|an|the|for|to|with|of|at|from|into|onto|and|or|your|my|our|their|some|than|per|toward|towards';
+// Case-sensitive, so "Take plan A" still ends on a word
+const DANGLING_END_RE = new RegExp(`\\b(?:${OBJECT_WORDS})[.!?]?$`);
+const LOST_AMOUNT_RE = new RegExp(`${NUMERIC_HINT}\\s+(?:${OBJECT_WORDS}|in|on|by)\\b`, 'i');
+
+const isRecord = (v) => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v) => typeof v === 'number' && Number.isFinite(v);
+const isText = (v) => typeof v === 'string' && v.trim().length > 0;
+
+// Per-stat absolute caps, scaled to the player's profile as the prompt describes
+export function effectCaps(profile = {}) {
+  const income = Math.max(0, Number(profile?.income) || 0);
+  const fixed = Math.max(0, Number(profile?.fixedExpenses) || 0);
+  const debt = Math.max(0, Number(profile?.debt) || 0);
+  const budget = Math.abs(income - fixed);
+  const money = Math.max(500, Math.round(budget * 0.25));
+  return {
+    budget: money,
+    savings: money,
+    income: Math.min(1500, Math.max(100, Math.round(income * 0.2))),
+    fixedExpenses: Math.min(1500, Math.max(100, Math.round(fixed * 0.2))),
+    debt: Math.min(2000, Math.max(500, Math.round(debt * 0.15))),
+    impulse: 10,
+    happiness: 10,
+    stress: 10,
+  };
+}
+
+export function isCondition(c) {
+  if (!isRecord(c)) return false;
+  if (Array.isArray(c.all)) return c.all.length > 0 && c.all.every(isCondition);
+  if (Array.isArray(c.any)) return c.any.length > 0 && c.any.every(isCondition);
+  if ('not' in c) return isCondition(c.not);
+  if ('month' in c) {
+    const m = c.month;
+    return isRecord(m) && (m.min === undefined || isNumber(m.min)) && (m.max === undefined || isNumber(m.max));
+  }
+  if (!STATS.includes(c.stat) || !OPERATORS.includes(c.operator)) return false;
+  if ('compareTo' in c) return STATS.includes(c.compareTo) && (c.scale === undefined || isNumber(c.scale));
+  return isNumber(c.value);
+}
+
+// Remove "(+$200, -5 stress)"-style hints. null when what is left is not a label: fewer than
+// two words ("Pay $500"), an amount or stat name the sentence needed ("Lend $500 to a friend",
+// "Reduce stress with yoga") or a dangling last word ("Buy a used car for $8,000")
+export function stripLabelHints(label) {
+  const unhinted = label.replace(HINT_PARENS_RE, '');
+  if (LOST_AMOUNT_RE.test(unhinted)) return null;
+  const cleaned = unhinted
+    .replace(NUMERIC_HINT_RE, '')
+    .replace(SYMBOL_RE, '')
+    .replace(/\s+([,.;:!?])/g, '$1')
+    .replace(TRAILING_STATS_RE, '')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+  if (STAT_WORD_RE.test(cleaned) || DANGLING_END_RE.test(cleaned)) return null;
+  return cleaned.split(' ').length >= 2 ? cleaned : null;
+}
+
+function repairChoice(raw, index, where, caps, report) {
+  if (!isRecord(raw) || !isText(raw.label) || !isText(raw.log)) {
+    report.dropped.push(`${where}: choice #${index + 1} has no label or log`);
+    return null;
+  }
+  const id = isText(raw.id) ? raw.id.trim() : `choice-${index + 1}`;
+  if (id !== raw.id) report.repairs.push(`${where}: gave choice #${index + 1} the id "${id}"`);
+
+  // A label that does not survive losing its hints goes back to the model rather than through broken
+  const label = stripLabelHints(raw.label);
+  if (label === null) {
+    report.dropped.push(`${where}.${id}: label "${raw.label}" must read as an action without numbers or stat names`);
+    return null;
+  }
+  if (label !== raw.label) report.repairs.push(`${where}: stripped hints from label "${raw.label}"`);
+
+  const effects = {};
+  for (const [key, value] of Object.entries(isRecord(raw.effects) ? raw.effects : {})) {
+    if (!EFFECT_KEYS.includes(key) || !isNumber(value)) {
+      report.repairs.push(`${where}.${id}: removed unknown effect "${key}"`);
+      continue;
+    }
+    const capped = Math.round(Math.max(-caps[key], Math.min(caps[key], value)));
+    if (capped !== value) report.repairs.push(`${where}.${id}: clamped ${key} ${value} to ${capped}`);
+    if (capped !== 0) effects[key] = capped;
+  }
+
+  return { id, label, effects, log: raw.log.trim(), ...(isText(raw.explain) ? { explain: raw.explain.trim() } : {}) };
+}
+
+function repairEvent(raw, index, caps, report) {
+  const where = isRecord(raw) && isText(raw.id) ? `event "${raw.id}"` : `event #${index + 1}`;
+  if (!isRecord(raw) || !isText(raw.id) || !isText(raw.title) || !isText(raw.description)) {
+    report.dropped.push(`${where}: missing id, title or description`);
+    return null;
+  }
+  if (!TAGS.includes(raw.tag)) {
+    report.dropped.push(`${where}: unknown tag "${raw.tag}"`);
+    return null;
+  }
+  if (REPAYMENT_RE.test(`${raw.title} ${raw.description}`)) {
+    report.dropped.push(`${where}: debt repayment and bill-cutting events are built into the game`);
+    return null;
+  }
+
+  const choices = (Array.isArray(raw.choices) ? raw.choices : [])
+    .map((c, i) => repairChoice(c, i, where, caps, report))
+    .filter(Boolean);
+  // Choice ids only need to be unique within their event
+  const seen = new Set();
+  for (const choice of choices) {
+    if (seen.has(choice.id)) {
+      const renamed = `${choice.id}-${seen.size + 1}`;
+      report.repairs.push(`${where}: renamed duplicate choice id "${choice.id}" to "${renamed}"`);
+      choice.id = renamed;
+    }
+    seen.add(choice.id);
+  }
+  if (choices.length < 2) {
+    report.dropped.push(`${where}: needs at least two usable choices`);
+    return null;
+  }
+
+  const event = { id: raw.id.trim(), title: raw.title.trim(), description: raw.description.trim(), tag: raw.tag, choices };
+  for (const key of ['cooldown', 'weight']) {
+    if (raw[key] === undefined) continue;
+    if (isNumber(raw[key]) && raw[key] >= 0) event[key] = raw[key];
+    else report.repairs.push(`${where}: removed invalid ${key}`);
+  }
+  if (raw.condition !== undefined) {
+    if (isCondition(raw.condition)) event.condition = raw.condition;
+    else report.repairs.push(`${where}: removed unreadable condition`);
+  }
+  return event;
+}
+
+// Equal share of `count` events per tag (the first tags get any remainder)
+export function tagQuota(count = EVENT_COUNT) {
+  return Object.fromEntries(TAGS.map((t, i) => [t, Math.floor(count / TAGS.length) + (i < count % TAGS.length ? 1 : 0)]));
+}
+
+// Accepts events one at a time (for streaming) and keeps the pack within the rules.
+// `quota` is the number of events wanted per tag; `taken` lists ids and titles
+// already in the player's pack, for top-ups in the middle of a run.
+export function createPackValidator(profile = {}, { quota = tagQuota(), taken = [] } = {}) {
+  const report = { repairs: [], dropped: [], problems: [] };
+  const caps = effectCaps(profile);
+  const wanted = Object.values(quota).reduce((a, b) => a + b, 0);
+  const maxConditioned = Math.round((wanted * MAX_CONDITIONED) / EVENT_COUNT);
+  const ids = new Set(taken.map((e) => e.id));
+  const titles = new Set(taken.map((e) => String(e.title).toLowerCase()));
+  const byTag = Object.fromEntries(TAGS.map((t) => [t, []]));
+  let conditioned = 0;
+  let seen = 0;
+
+  const missing = () =>
+    Object.fromEntries(TAGS.map((t) => [t, Math.max(0, (quota[t] ?? 0) - byTag[t].length)]).filter(([, n]) => n > 0));
+
+  return {
+    report,
+    missing,
+    accepted: () => TAGS.flatMap((t) => byTag[t]),
+
+    // The cleaned event, or null when it was dropped (see report.dropped)
+    add(raw) {
+      const event = repairEvent(raw, seen++, caps, report);
+      if (!event) return null;
+
+      const titleKey = event.title.toLowerCase();
+      if (titles.has(titleKey)) {
+        report.dropped.push(`event "${event.id}": duplicate title "${event.title}"`);
+        return null;
+      }
+      const tagEvents = byTag[event.tag];
+      if (tagEvents.length >= (quota[event.tag] ?? 0)) {
+        report.dropped.push(`event "${event.id}": more than ${quota[event.tag] ?? 0} ${event.tag} events`);
+        return null;
+      }
+      if (ids.has(event.id)) {
+        let n = 2;
+        while (ids.has(`${event.id}-${n}`)) n++;
+        report.repairs.push(`renamed duplicate event id "${event.id}" to "${event.id}-${n}"`);
+        event.id = `${event.id}-${n}`;
+      }
+
+      if (event.condition) {
+        if (conditioned >= maxConditioned) {
+          delete event.condition;
+          report.repairs.push(`event "${event.id}": removed condition (more than ${maxConditioned} gated events)`);
+        } else if (tagEvents.length === quota[event.tag] - 1 && tagEvents.length > 0 && tagEvents.every((e) => e.condition)) {
+          // Never gate every event of a tag
+          delete event.condition;
+          report.repairs.push(`event "${event.id}": removed condition so not every ${event.tag} event is gated`);
+        } else {
+          conditioned += 1;
+        }
+      }
+
+      ids.add(event.id);
+      titles.add(titleKey);
+      tagEvents.push(event);
+      return event;
+    },
+
+    // `ok` is false when the rules cannot be met by repairs alone (too few events
+    // for a tag); `problems` then says what the model must fix
+    finish() {
+      report.problems = Object.entries(missing()).map(([tag, n]) => `need ${n} more usable '${tag}' event(s)`);
+      return { ok: report.problems.length === 0, events: this.accepted(), report };
+    },
+  };
+}
+
+// Clean a whole generated pack at once
+export function validateEvents(rawEvents, profile = {}) {
+  if (!Array.isArray(rawEvents)) {
+    return { ok: false, events: [], report: { repairs: [], dropped: [], problems: ['events must be a JSON array'] } };
+  }
+  const validator = createPackValidator(profile);
+  rawEvents.forEach((raw) => validator.add(raw));
+  return validator.finish();
+}
+
+export function isWinCondition(w) {
+  return isRecord(w) && WIN_STATS.includes(w.stat) && WIN_OPERATORS.includes(w.operator) && isNumber(w.value);
+}
+
+// A goal the client can use, or null (the client then falls back to the default custom goal)
+export function validateGoal(goal, report) {
+  if (isRecord(goal) && isText(goal.description) && isWinCondition(goal.winCondition)) {
+    return { description: goal.description.trim(), winCondition: goal.winCondition };
+  }
+  if (goal != null) report.dropped.push('goal: malformed description or winCondition');
+  return null;
+}
+
+function ruleLines(report) {
+  return [...report.problems, ...report.dropped].slice(0, 20).join('\n- ');
+}
+
+// One paragraph for the model listing what it must change on the next attempt
+export function feedbackFor(report) {
+  return `Your previous response broke these rules:\n- ${ruleLines(report)}\nReturn a complete, corrected EventsResponse JSON object with exactly ${EVENT_COUNT} events (${EVENTS_PER_TAG} per tag).`;
+}
+
+// Streaming retries only ask for what is still missing
+export function streamFeedbackFor(report, missing) {
+  const wanted = Object.entries(missing).map(([tag, n]) => `${n} '${tag}'`).join(', ');
+  return `Some events were rejected:\n- ${ruleLines(report)}\nSend only the missing events now: ${wanted}. Use new ids and titles.`;
+}